@@ -2,17 +2,55 @@ import {
 	type App,
 	MarkdownView,
 	Notice,
+	normalizePath,
 	Plugin,
 	PluginSettingTab,
 	Setting,
-	SuggestModal,
-	TFile,
 } from "obsidian";
 
-import { Entity, EntityNotFoundError } from "./src/wikidata";
+import { isBulkImportRunning, runBulkImport } from "./src/bulk";
+import { ResponseCache } from "./src/cache";
+import { EntityIndex } from "./src/entity-index";
+import { migrateLinks } from "./src/links";
+import { type ImportProfile, selectProfile } from "./src/profiles";
+import { pushToWikibase } from "./src/push";
+import { BackgroundRefresh } from "./src/refresh";
+import { configureRequests } from "./src/request";
+import { parseSearchTypeFilters } from "./src/search";
+import { WikidataEntitySuggestModal } from "./src/search-modal";
+import { createLinkedNotes, createLinkedNotesForActiveFile } from "./src/stubs";
+import { ImportSnapshots } from "./src/snapshots";
+import {
+	getEntityIdForFile,
+	hasEntityReference,
+	resolveEntityIdForFile,
+	syncEntityToFile,
+} from "./src/sync";
+import { TEMPLATE_SECTION_END, TEMPLATE_SECTION_START } from "./src/templates";
+import type { WikibaseCredentials } from "./src/wikibase";
+import {
+	type BatchProperties,
+	type DateFormat,
+	DEFAULT_SPARQL_ENDPOINTS,
+	Entity,
+	EntityNotFoundError,
+	type QualifierFormat,
+	type RankPolicy,
+	type SparqlDialectName,
+	type SparqlEndpoint,
+	setRequestCache,
+	testSparqlEndpoint,
+	type UnitFormat,
+	WIKIBASE_SOURCES,
+	WIKIDATA_SOURCE,
+	type WikibaseEntityType,
+	type WikibaseSource,
+} from "./src/wikidata";
 
-interface WikidataImporterSettings {
+export interface WikidataImporterSettings {
 	entityIdKey: string;
+	/** Frontmatter key recording when a note was last imported. */
+	lastSyncedKey: string;
 	internalLinkPrefix: string;
 	spaceReplacement: string;
 	ignoreCategories: boolean;
@@ -20,13 +58,79 @@ interface WikidataImporterSettings {
 	ignoreIDs: boolean;
 	ignorePropertiesWithTimeRanges: boolean;
 	overwriteExistingProperties: boolean;
+	reviewImportChanges: boolean;
 	allowedProperties: string[];
 	blockedProperties: string[];
 	language: string;
+	bulkImportFolder: string;
+	bulkImportConcurrency: number;
+	/** File paths still to be processed by an interrupted bulk import. */
+	bulkImportQueue: string[];
+	cacheEnabled: boolean;
+	cacheTtlHours: number;
+	cacheMaxEntries: number;
+	offlineMode: boolean;
+	sparqlEndpoints: SparqlEndpoint[];
+	wikibaseSource: WikibaseSource;
+	qualifierFormat: QualifierFormat;
+	qualifierProperties: string[];
+	rankPolicy: RankPolicy;
+	unitFormat: UnitFormat;
+	normalizeUnits: boolean;
+	dateFormat: DateFormat;
+	/** Frontmatter keys by property ID, overriding the property label. */
+	propertyMappings: { [propertyId: string]: string };
+	/** Tried in order; the first one matching an entity's classes is used. */
+	importProfiles: ImportProfile[];
+	/** Path of the template for new notes. */
+	noteTemplate: string;
+	rerenderTemplateSection: boolean;
+	/** How many hops of linked entities to create notes for; 0 for none. */
+	stubDepth: number;
+	/** Keys or property IDs whose linked entities get notes. Empty for all. */
+	stubProperties: string[];
+	/** Link entity values to notes that carry their ID, wherever they are. */
+	linkToExistingNotes: boolean;
+	/** Class IDs keyed by the lower-case search prefix that filters by them. */
+	searchTypeFilters: { [name: string]: string };
+	/** Preview the selected search result's properties. */
+	searchPreview: boolean;
+	/** API used for edits; empty to use the Wikibase source's API. */
+	editApiUrl: string;
+	editAuthType: WikibaseCredentials["type"];
+	editUsername: string;
+	editPassword: string;
+	editOAuthToken: string;
+	/** Only log the edits a push would make instead of sending them. */
+	editDryRun: boolean;
+	/** Import labels, descriptions and aliases into frontmatter. */
+	importTerms: boolean;
+	/** Store the URL of the entity's Wikipedia article under `wikipediaKey`. */
+	importSitelink: boolean;
+	wikipediaKey: string;
+	/** Put the introduction of the Wikipedia article into the note body. */
+	importExtract: boolean;
+	/** Download the image (P18) and logo (P154) from Commons and embed them. */
+	downloadImages: boolean;
+	/** Folder images are downloaded to; empty to follow Obsidian's setting. */
+	attachmentsFolder: string;
+	refreshEnabled: boolean;
+	refreshPaused: boolean;
+	refreshIntervalMinutes: number;
+	/** Notes last synced longer ago than this are refreshed. */
+	refreshMaxAgeDays: number;
+	/** Also refresh notes whose entity was modified since they were synced. */
+	refreshWhenModified: boolean;
+	/** Pause between two refreshed notes. */
+	refreshDelaySeconds: number;
+	/** When background refresh was turned on. Notes never synced since are
+	 *  spread out over the maximum age from then. */
+	refreshStartedAt: number;
 }
 
 const DEFAULT_SETTINGS: WikidataImporterSettings = {
 	entityIdKey: "wikidata entity id",
+	lastSyncedKey: "wikidata last synced",
 	// biome-ignore lint/suspicious/noTemplateCurlyInString: this is intentional
 	internalLinkPrefix: "db/${label}",
 	spaceReplacement: "",
@@ -35,124 +139,69 @@ const DEFAULT_SETTINGS: WikidataImporterSettings = {
 	ignoreIDs: true,
 	ignorePropertiesWithTimeRanges: true,
 	overwriteExistingProperties: false,
+	reviewImportChanges: false,
 	blockedProperties: [],
 	allowedProperties: [],
 	language: "mul,en",
+	bulkImportFolder: "",
+	bulkImportConcurrency: 4,
+	bulkImportQueue: [],
+	cacheEnabled: true,
+	cacheTtlHours: 24,
+	cacheMaxEntries: 2000,
+	offlineMode: false,
+	sparqlEndpoints: DEFAULT_SPARQL_ENDPOINTS,
+	wikibaseSource: WIKIDATA_SOURCE,
+	qualifierFormat: "none",
+	qualifierProperties: [],
+	rankPolicy: "best",
+	unitFormat: "none",
+	normalizeUnits: false,
+	dateFormat: "raw",
+	propertyMappings: {},
+	importProfiles: [],
+	noteTemplate: "",
+	rerenderTemplateSection: false,
+	stubDepth: 0,
+	stubProperties: [],
+	linkToExistingNotes: true,
+	searchTypeFilters: {
+		book: "Q7725634",
+		film: "Q11424",
+		person: "Q5",
+		city: "Q515",
+		album: "Q482994",
+		company: "Q4830453",
+		article: "Q13442814",
+	},
+	searchPreview: true,
+	editApiUrl: "",
+	editAuthType: "botpassword",
+	editUsername: "",
+	editPassword: "",
+	editOAuthToken: "",
+	editDryRun: true,
+	importTerms: false,
+	importSitelink: false,
+	wikipediaKey: "wikipedia",
+	importExtract: false,
+	downloadImages: false,
+	attachmentsFolder: "",
+	refreshEnabled: false,
+	refreshPaused: false,
+	refreshIntervalMinutes: 60,
+	refreshMaxAgeDays: 30,
+	refreshWhenModified: false,
+	refreshDelaySeconds: 10,
+	refreshStartedAt: 0,
 };
 
-async function syncEntityToFile(
-	plugin: WikidataImporterPlugin,
-	entity: Entity,
-	file: TFile,
-) {
-	let frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
-	if (!frontmatter) {
-		frontmatter = {};
-	}
-
-	const properties = await entity.getProperties({
-		language: plugin.settings.language,
-		ignoreCategories: plugin.settings.ignoreCategories,
-		ignoreWikipediaPages: plugin.settings.ignoreWikipediaPages,
-		ignoreIDs: plugin.settings.ignoreIDs,
-		ignorePropertiesWithTimeRanges:
-			plugin.settings.ignorePropertiesWithTimeRanges,
-		internalLinkPrefix: plugin.settings.internalLinkPrefix,
-		spaceReplacement: plugin.settings.spaceReplacement,
-	});
-
-	const filteredProperties: string[] = [];
-
-	for (const [key, value] of Object.entries(properties)) {
-		if (
-			// If the "allowed properties" is defined, only import properties that are defined in the setting
-			// If the "blocked properties" is defined, do not import properties that are defined in the setting
-			(plugin.settings.allowedProperties?.length &&
-				!plugin.settings.allowedProperties.includes(key)) ||
-			(plugin.settings.blockedProperties?.length &&
-				plugin.settings.blockedProperties.includes(key))
-		) {
-			continue;
-		}
-		filteredProperties.push(key);
-		frontmatter[key] = value.length === 1 ? value[0] : value;
-	}
-
-	await plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
-		for (const [key, value] of Object.entries(properties)) {
-			if (filteredProperties.includes(key)) {
-				if (plugin.settings.overwriteExistingProperties) {
-					frontmatter[key] = value.length === 1 ? value[0] : value;
-				} else if (!frontmatter[key]) {
-					frontmatter[key] = value.length === 1 ? value[0] : value;
-				}
-			}
-		}
-
-		// Ensure the entity ID is always set, which may not be the case if this is
-		// the first time the entity is being imported.
-		frontmatter[plugin.settings.entityIdKey] = entity.id;
-	});
-}
-
-class WikidataEntitySuggestModal extends SuggestModal<Entity> {
-	plugin: WikidataImporterPlugin;
-	activeFile?: TFile;
-
-	constructor(plugin: WikidataImporterPlugin, activeFile?: TFile) {
-		super(plugin.app);
-		this.plugin = plugin;
-		this.activeFile = activeFile;
-		this.setPlaceholder("Search for a Wikidata entity");
-	}
-
-	getSuggestions(query: string): Promise<Entity[]> {
-		return Entity.search(query, {
-			language: this.plugin.settings.language,
-		});
-	}
-
-	async onChooseSuggestion(item: Entity, _evt: MouseEvent | KeyboardEvent) {
-		const loading = new Notice(`Importing entity ${item.id}...`);
-
-		try {
-			if (this.plugin.settings.internalLinkPrefix === "db/") {
-				// biome-ignore lint/suspicious/noTemplateCurlyInString: this is intentional
-				this.plugin.settings.internalLinkPrefix = "db/${label}";
-			}
-
-			const name = Entity.buildLink(
-				`${this.plugin.settings.internalLinkPrefix}.md`,
-				item.label || "",
-				item.id.substring(1),
-			);
-
-			let file =
-				this.activeFile || this.app.vault.getAbstractFileByPath(name);
-			if (!(file instanceof TFile)) {
-				file = await this.app.vault.create(name, "");
-			}
-			await syncEntityToFile(this.plugin, item, file as TFile);
-			const leaf = this.app.workspace.getMostRecentLeaf();
-			if (leaf) {
-				leaf.openFile(file as TFile);
-			}
-		} catch (e) {
-			new Notice(`Error importing entity ${item.id}: ${e}`);
-			return;
-		} finally {
-			loading.hide();
-		}
-	}
-
-	renderSuggestion(entity: Entity, el: HTMLElement): void {
-		el.createEl("div", { text: entity.label });
-		el.createEl("small", { text: entity.description });
-	}
-}
-
 export default class WikidataImporterPlugin extends Plugin {
 	settings!: WikidataImporterSettings;
+	cache!: ResponseCache;
+	snapshots!: ImportSnapshots;
+	entityIndex!: EntityIndex;
+	refresh!: BackgroundRefresh;
 
 	async importProperties() {
 		const file = this.app.workspace.getActiveFile();
@@ -161,16 +210,20 @@ export default class WikidataImporterPlugin extends Plugin {
 			return;
 		}
 
-		const frontmatter =
-			this.app.metadataCache.getFileCache(file)?.frontmatter || {};
-
-		let entityId: string = frontmatter[this.settings.entityIdKey];
-		if (entityId?.startsWith("https://www.wikidata.org/wiki/")) {
-			entityId = entityId.substring(
-				"https://www.wikidata.org/wiki/".length,
-			);
+		let entityId = getEntityIdForFile(this, file);
+		if (!entityId && hasEntityReference(this, file)) {
+			// A Wikipedia URL or external identifier such as an ISBN.
+			const looking = new Notice("Looking up the Wikidata entity...");
+			try {
+				entityId = await resolveEntityIdForFile(this, file);
+			} catch (e) {
+				new Notice(`Error looking up the Wikidata entity: ${e}`);
+				return;
+			} finally {
+				looking.hide();
+			}
 		}
-		if (!entityId?.startsWith("Q")) {
+		if (!entityId) {
 			new Notice(
 				`No Wikidata entity ID found in frontmatter key "${this.settings.entityIdKey}", searching for a Wikidata entity from the file name "${file.basename}"...`,
 			);
@@ -183,8 +236,10 @@ export default class WikidataImporterPlugin extends Plugin {
 
 		const loading = new Notice("Loading properties from Wikidata...");
 		const entity = Entity.fromId(entityId);
+		let result: BatchProperties | null;
 		try {
-			await syncEntityToFile(this, entity, file);
+			const profile = await selectProfile(this, entityId);
+			result = await syncEntityToFile(this, entity, file, profile);
 		} catch (e) {
 			if (e instanceof EntityNotFoundError) {
 				new Notice(e.message);
@@ -197,6 +252,16 @@ export default class WikidataImporterPlugin extends Plugin {
 		} finally {
 			loading.hide();
 		}
+		if (result) await this.importLinkedEntities(entityId, result);
+	}
+
+	/** Create notes for linked entities if that is enabled. */
+	async importLinkedEntities(entityId: string, result: BatchProperties) {
+		try {
+			await createLinkedNotes(this, entityId, result);
+		} catch (e) {
+			new Notice(`Error creating notes for linked entities: ${e}`);
+		}
 	}
 
 	async importEntityFromHighlightedText() {
@@ -245,6 +310,30 @@ export default class WikidataImporterPlugin extends Plugin {
 	async onload() {
 		await this.loadSettings();
 
+		configureRequests({
+			userAgent: `WikidataImporter/${this.manifest.version} (https://github.com/samwho/obsidian-wikidata-importer)`,
+		});
+
+		this.cache = new ResponseCache(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/cache.json`),
+			this.cacheOptions(),
+		);
+		await this.cache.load();
+		this.applyCacheSettings();
+
+		this.snapshots = new ImportSnapshots(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/snapshots.json`),
+		);
+		await this.snapshots.load();
+
+		this.entityIndex = new EntityIndex(this);
+		this.entityIndex.register();
+
+		this.refresh = new BackgroundRefresh(this);
+		this.refresh.register();
+
 		this.addCommand({
 			id: "import-properties-for-active-file",
 			name: "Import properties for active file",
@@ -265,10 +354,92 @@ export default class WikidataImporterPlugin extends Plugin {
 			editorCallback: this.importEntityFromHighlightedText.bind(this),
 		});
 
+		this.addCommand({
+			id: "import-properties-for-all-notes",
+			name: "Import properties for all notes",
+			callback: () => runBulkImport(this),
+		});
+
+		this.addCommand({
+			id: "discard-pending-bulk-import",
+			name: "Discard pending bulk import",
+			checkCallback: (checking) => {
+				if (
+					this.settings.bulkImportQueue.length === 0 ||
+					isBulkImportRunning()
+				) {
+					return false;
+				}
+				if (!checking) {
+					this.settings.bulkImportQueue = [];
+					this.saveSettings();
+					new Notice("Pending bulk import discarded");
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "create-notes-for-linked-entities",
+			name: "Create notes for linked entities",
+			callback: () => createLinkedNotesForActiveFile(this),
+		});
+
+		this.addCommand({
+			id: "push-to-wikidata",
+			name: "Push changes to Wikidata",
+			callback: () => pushToWikibase(this),
+		});
+
+		this.addCommand({
+			id: "toggle-background-refresh",
+			name: "Pause or resume background refresh",
+			checkCallback: (checking) => {
+				if (!this.settings.refreshEnabled) return false;
+				if (!checking) {
+					this.refresh.setPaused(!this.settings.refreshPaused);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "clear-cache",
+			name: "Clear cache",
+			callback: async () => {
+				await this.cache.clear();
+				new Notice("Wikidata cache cleared");
+			},
+		});
+
 		this.addSettingTab(new WikidataImporterSettingsTab(this.app, this));
+
+		if (this.settings.bulkImportQueue.length > 0) {
+			new Notice(
+				`Wikidata bulk import was interrupted with ${this.settings.bulkImportQueue.length} notes remaining. Run "Import properties for all notes" to resume.`,
+			);
+		}
+	}
+
+	async onunload() {
+		this.refresh?.stop();
+		setRequestCache(null);
+		await this.cache?.save();
+		await this.snapshots?.save();
+	}
+
+	private cacheOptions() {
+		return {
+			ttl: this.settings.cacheTtlHours * 60 * 60 * 1000,
+			maxEntries: this.settings.cacheMaxEntries,
+			offline: this.settings.offlineMode,
+		};
 	}
 
-	onunload() {}
+	private applyCacheSettings() {
+		this.cache.options = this.cacheOptions();
+		setRequestCache(this.settings.cacheEnabled ? this.cache : null);
+	}
 
 	async loadSettings() {
 		this.settings = Object.assign(
@@ -276,11 +447,41 @@ export default class WikidataImporterPlugin extends Plugin {
 			DEFAULT_SETTINGS,
 			await this.loadData(),
 		);
+		// Copy the endpoints, source and profiles so that editing them in the settings tab never
+		// mutates DEFAULT_SETTINGS.
+		this.settings.sparqlEndpoints = this.settings.sparqlEndpoints.map(
+			(endpoint) => ({ ...endpoint }),
+		);
+		this.settings.wikibaseSource = { ...this.settings.wikibaseSource };
+		this.settings.importProfiles = this.settings.importProfiles.map(
+			(profile) => ({ ...profile }),
+		);
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.applyCacheSettings();
+		// The entity ID key or source may have changed.
+		this.entityIndex?.invalidate();
+		this.refresh?.updateStatus();
+	}
+}
+
+/**
+ * Parse "P569: born" lines into a mapping from property ID to frontmatter key.
+ * Lines that do not start with a property ID are ignored.
+ */
+function parsePropertyMappings(value: string): {
+	[propertyId: string]: string;
+} {
+	const mappings: { [propertyId: string]: string } = {};
+	for (const line of value.split("\n")) {
+		const match = line.match(/^\s*(P\d+)\s*[:=]\s*(.*\S)\s*$/i);
+		if (match) {
+			mappings[match[1].toUpperCase()] = match[2];
+		}
 	}
+	return mappings;
 }
 
 function languageValidationError(value: string): string | null {
@@ -343,7 +544,9 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Wikidata entity ID key")
-			.setDesc("The frontmatter key to use for the Wikidata entity ID")
+			.setDesc(
+				"The frontmatter key to use for the Wikidata entity ID. Before the first import it may also hold an entity or Wikipedia URL, or an ISBN, DOI, ORCID iD or IMDb ID, which is replaced by the ID.",
+			)
 			.addText((text) =>
 				text
 					.setPlaceholder(DEFAULT_SETTINGS.entityIdKey)
@@ -354,6 +557,21 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Last synced key")
+			.setDesc(
+				"The frontmatter key to record when a note was last imported in, for background refresh. It is only written while background refresh is on; leave empty to turn background refresh off.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.lastSyncedKey)
+					.setValue(this.plugin.settings.lastSyncedKey)
+					.onChange(async (value) => {
+						this.plugin.settings.lastSyncedKey = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName(
 				"Non-letter character replacement string (properties only)",
@@ -371,10 +589,15 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 					}),
 			);
 
+		// The prefix existing links were written with, as far as this tab
+		// knows: the one it opened with, or the last one migrated to.
+		let linkPrefix = this.plugin.settings.internalLinkPrefix;
+
 		new Setting(containerEl)
 			.setName("Internal link prefix")
 			.setDesc(
-				"The prefix to use for internal links to Wikidata entities",
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: this is intentional
+				"The template for internal links to Wikidata entities. Placeholders: ${label}, ${description}, ${qid} (e.g. Q42), ${numericId} or ${id} (e.g. 42) and ${lang}. Add |... for display text, e.g. db/${qid}|${label}. After changing it, use Rewrite links to update existing links.",
 			)
 			.addText((text) =>
 				text
@@ -384,6 +607,32 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 						this.plugin.settings.internalLinkPrefix = value;
 						await this.plugin.saveSettings();
 					}),
+			)
+			.addButton((button) =>
+				button.setButtonText("Rewrite links").onClick(async () => {
+					const value = this.plugin.settings.internalLinkPrefix;
+					if (!value || value === linkPrefix) {
+						new Notice("The internal link prefix has not changed");
+						return;
+					}
+					if (await migrateLinks(this.plugin, linkPrefix, value)) {
+						linkPrefix = value;
+					}
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Link to existing notes")
+			.setDesc(
+				"If checked, entities that already have a note carrying their ID are linked to that note, wherever it is and whatever it is called, instead of using the internal link prefix",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.linkToExistingNotes)
+					.onChange(async (value) => {
+						this.plugin.settings.linkToExistingNotes = value;
+						await this.plugin.saveSettings();
+					}),
 			);
 
 		new Setting(containerEl)
@@ -445,10 +694,136 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Statement ranks")
+			.setDesc(
+				"Which values to import when a property has several, based on their rank on Wikidata",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						preferred: "Preferred only",
+						best: "Best (preferred, else normal)",
+						nondeprecated: "All except deprecated",
+						all: "All, including deprecated",
+					})
+					.setValue(this.plugin.settings.rankPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.rankPolicy = value as RankPolicy;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Qualifiers")
+			.setDesc(
+				"How to import qualifiers such as start time, end time and point in time. Anything other than 'Don't import' imports properties with time ranges regardless of the setting above.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						none: "Don't import",
+						nested: "Nested under each value",
+						keys: 'Separate keys, e.g. "spouse (start time)"',
+					})
+					.setValue(this.plugin.settings.qualifierFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.qualifierFormat =
+							value as QualifierFormat;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Properties with qualifiers")
+			.setDesc(
+				"Only import qualifiers for properties with these IDs, such as P26, one per line. Leave empty to import qualifiers for all properties.",
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("P26\nP39\n...")
+					.setValue(
+						this.plugin.settings.qualifierProperties.join("\n"),
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.qualifierProperties = value
+							.trim()
+							.split("\n")
+							.filter(Boolean);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Quantity units")
+			.setDesc("How to import the units of values such as height or mass")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						none: "Don't import",
+						suffix: 'After the amount, e.g. "1.96 m"',
+						object: "As an object with amount and unit",
+						key: 'In a separate key, e.g. "height unit"',
+					})
+					.setValue(this.plugin.settings.unitFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.unitFormat = value as UnitFormat;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Convert quantities to SI units")
+			.setDesc(
+				"If checked, quantities are converted to SI units where Wikidata provides a conversion. Only applies when quantity units are imported.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.normalizeUnits)
+					.onChange(async (value) => {
+						this.plugin.settings.normalizeUnits = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Date format")
+			.setDesc(
+				"How to import dates. Wikidata dates are often only known to the year or month, which the 'precision' format preserves. Full dates work with Obsidian's date property type and Dataview.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						precision:
+							'As precise as known, e.g. "1503" or "1952-03-11"',
+						date: 'Full date, e.g. "1503-01-01"',
+						raw: 'Raw timestamp, e.g. "1503-01-01T00:00:00Z"',
+					})
+					.setValue(this.plugin.settings.dateFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.dateFormat = value as DateFormat;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Import labels, descriptions and aliases")
+			.setDesc(
+				"If checked, the entity's description and aliases are imported into the description and aliases keys, which Obsidian resolves links by, and its label and description in every further configured language into keys such as label_de and description_de",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.importTerms)
+					.onChange(async (value) => {
+						this.plugin.settings.importTerms = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName("Overwrite existing properties")
 			.setDesc(
-				"If checked, existing properties will be overwritten when importing",
+				"If checked, properties edited in the note will be overwritten when importing. Properties only changed on Wikidata are always updated.",
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -460,10 +835,24 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Review changes on re-import")
+			.setDesc(
+				"If checked, re-importing a note shows which properties changed in the note and on Wikidata, and lets you pick the changes to apply",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.reviewImportChanges)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewImportChanges = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName("Blocked properties")
 			.setDesc(
-				"Do not import properties with these labels, one per line, even if they are allowed by the 'allowed properties' setting",
+				"Do not import properties with these labels or property IDs, one per line, even if they are allowed by the 'allowed properties' setting",
 			)
 			.addTextArea((text) =>
 				text
@@ -483,7 +872,7 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Allowed properties")
 			.setDesc(
-				"Only import properties with these labels, one per line, making the 'blocked properties' irrelevant",
+				"Only import properties with these labels or property IDs, one per line, making the 'blocked properties' irrelevant",
 			)
 			.addTextArea((text) =>
 				text
@@ -499,5 +888,807 @@ class WikidataImporterSettingsTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}),
 			);
+
+		new Setting(containerEl)
+			.setName("Property mappings")
+			.setDesc(
+				'Frontmatter keys to use for properties, one "property ID: key" per line. Unlike labels these do not change with the language. Map several properties to the same key to merge their values.',
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("P569: born\nP570: died\nP31: type")
+					.setValue(
+						Object.entries(this.plugin.settings.propertyMappings)
+							.map(([id, key]) => `${id}: ${key}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.propertyMappings =
+							parsePropertyMappings(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Bulk import folder")
+			.setDesc(
+				"Folder to walk when importing properties for all notes. Leave empty to import every note with a Wikidata entity ID.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("db")
+					.setValue(this.plugin.settings.bulkImportFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.bulkImportFolder = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Bulk import concurrency")
+			.setDesc(
+				"How many notes to import at the same time when importing properties for all notes",
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setValue(this.plugin.settings.bulkImportConcurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.bulkImportConcurrency = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Cache responses")
+			.setDesc(
+				"If checked, Wikidata query and search responses are cached in the plugin folder",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.cacheEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.cacheEnabled = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Cache lifetime (hours)")
+			.setDesc("How long cached responses are used before refetching")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.cacheTtlHours))
+					.setValue(String(this.plugin.settings.cacheTtlHours))
+					.onChange(async (value) => {
+						const hours = Number(value);
+						if (!value.trim() || Number.isNaN(hours) || hours < 0) {
+							return;
+						}
+						this.plugin.settings.cacheTtlHours = hours;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Cache size")
+			.setDesc(
+				"Maximum number of cached responses, the oldest are discarded first",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.cacheMaxEntries))
+					.setValue(String(this.plugin.settings.cacheMaxEntries))
+					.onChange(async (value) => {
+						const entries = Number.parseInt(value);
+						if (Number.isNaN(entries) || entries < 0) {
+							return;
+						}
+						this.plugin.settings.cacheMaxEntries = entries;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Offline mode")
+			.setDesc(
+				"If checked, expired cached responses are used when Wikidata cannot be reached",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.offlineMode)
+					.onChange(async (value) => {
+						this.plugin.settings.offlineMode = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Clear cache")
+			.setDesc("Discard all cached Wikidata responses")
+			.addButton((button) =>
+				button.setButtonText("Clear").onClick(async () => {
+					await this.plugin.cache.clear();
+					new Notice("Wikidata cache cleared");
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Note template")
+			.setDesc(
+				"Note whose content new entity notes start with. Placeholders such as {{label}}, {{description}}, {{aliases}}, {{image}}, {{extract}} (the Wikipedia introduction), {{P569}} or {{property:date of birth}} are filled in.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("templates/entity")
+					.setValue(this.plugin.settings.noteTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.noteTemplate = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Update template section on import")
+			.setDesc(
+				`If checked, the part of the template between ${TEMPLATE_SECTION_START} and ${TEMPLATE_SECTION_END} is rendered again whenever properties are imported into an existing note`,
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.rerenderTemplateSection)
+					.onChange(async (value) => {
+						this.plugin.settings.rerenderTemplateSection = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Linked entity depth")
+			.setDesc(
+				"Create notes for entities linked from an imported entity, and for the entities linked from those, up to this many hops away. 0 turns this off. You are shown how many notes will be created first.",
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 3, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.stubDepth)
+					.onChange(async (value) => {
+						this.plugin.settings.stubDepth = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Linked entity properties")
+			.setDesc(
+				"Only create notes for entities linked through these properties, by label or property ID, one per line. Leave empty to follow every property.",
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("author\nP123\n...")
+					.setValue(this.plugin.settings.stubProperties.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.stubProperties = value
+							.trim()
+							.split("\n")
+							.filter(Boolean);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName("Search").setHeading();
+
+		new Setting(containerEl)
+			.setName("Search type filters")
+			.setDesc(
+				'Prefixes that restrict a search to instances of a class, one "prefix: class ID" per line. With "book: Q7725634", searching for "book: dune" only finds literary works. "property:" and "lexeme:" always search properties and lexemes.',
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("book: Q7725634\nperson: Q5")
+					.setValue(
+						Object.entries(this.plugin.settings.searchTypeFilters)
+							.map(([name, id]) => `${name}: ${id}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.searchTypeFilters =
+							parseSearchTypeFilters(value);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Preview search results")
+			.setDesc(
+				"If checked, the selected search result's properties are shown beside the results before you import it",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.searchPreview)
+					.onChange(async (value) => {
+						this.plugin.settings.searchPreview = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName("Wikipedia and images").setHeading();
+
+		new Setting(containerEl)
+			.setName("Import Wikipedia link")
+			.setDesc(
+				"If checked, the URL of the entity's Wikipedia article, in the first configured language that has one, is stored in the frontmatter",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.importSitelink)
+					.onChange(async (value) => {
+						this.plugin.settings.importSitelink = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Wikipedia link key")
+			.setDesc("The frontmatter key to store the Wikipedia link under")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.wikipediaKey)
+					.setValue(this.plugin.settings.wikipediaKey)
+					.onChange(async (value) => {
+						this.plugin.settings.wikipediaKey = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Import Wikipedia introduction")
+			.setDesc(
+				"If checked, the introduction of the entity's Wikipedia article is put at the top of the note and updated on every import",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.importExtract)
+					.onChange(async (value) => {
+						this.plugin.settings.importExtract = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Download images")
+			.setDesc(
+				"If checked, the entity's image (P18) and logo (P154) are downloaded from Wikimedia Commons and embedded at the top of the note",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.downloadImages)
+					.onChange(async (value) => {
+						this.plugin.settings.downloadImages = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Attachments folder")
+			.setDesc(
+				"Folder images are downloaded to. Leave empty to follow Obsidian's attachment settings.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("attachments")
+					.setValue(this.plugin.settings.attachmentsFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentsFolder = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName("Background refresh").setHeading();
+
+		new Setting(containerEl)
+			.setName("Refresh notes in the background")
+			.setDesc(
+				"If checked, notes are re-imported once they are out of date. Notes not imported since turning this on are refreshed gradually over the maximum age. The status bar shows how many are waiting; click it to pause or resume.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.refreshEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.refreshEnabled = value;
+						if (value)
+							this.plugin.settings.refreshStartedAt = Date.now();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		const refreshNumber = (
+			name: string,
+			desc: string,
+			key:
+				| "refreshMaxAgeDays"
+				| "refreshIntervalMinutes"
+				| "refreshDelaySeconds",
+		) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) =>
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+						.setValue(String(this.plugin.settings[key]))
+						.onChange(async (value) => {
+							const number = Number(value);
+							if (
+								!value.trim() ||
+								Number.isNaN(number) ||
+								number < 0
+							) {
+								return;
+							}
+							this.plugin.settings[key] = number;
+							await this.plugin.saveSettings();
+						}),
+				);
+		refreshNumber(
+			"Maximum age (days)",
+			"Notes last imported longer ago than this are refreshed",
+			"refreshMaxAgeDays",
+		);
+		refreshNumber(
+			"Check interval (minutes)",
+			"How often to look for notes that are out of date",
+			"refreshIntervalMinutes",
+		);
+		refreshNumber(
+			"Delay between notes (seconds)",
+			"How long to wait after refreshing a note, to go easy on Wikidata",
+			"refreshDelaySeconds",
+		);
+
+		new Setting(containerEl)
+			.setName("Refresh notes modified on Wikidata")
+			.setDesc(
+				"If checked, notes whose entity was edited on Wikidata since they were last imported are refreshed too, whatever their age",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.refreshWhenModified)
+					.onChange(async (value) => {
+						this.plugin.settings.refreshWhenModified = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName("Import profiles").setHeading();
+
+		for (const [
+			index,
+			profile,
+		] of this.plugin.settings.importProfiles.entries()) {
+			this.displayProfile(containerEl, profile, index);
+		}
+
+		let newProfileName = "";
+		new Setting(containerEl)
+			.setName("Add profile")
+			.setDesc(
+				"Profiles change how entities of certain classes, such as people or books, are imported. The first profile matching an entity is used.",
+			)
+			.addText((text) =>
+				text.setPlaceholder("Profile name").onChange((value) => {
+					newProfileName = value.trim();
+				}),
+			)
+			.addButton((button) =>
+				button.setButtonText("Add").onClick(async () => {
+					if (!newProfileName) {
+						new Notice("Profile name must not be empty");
+						return;
+					}
+					this.plugin.settings.importProfiles.push({
+						name: newProfileName,
+						classes: [],
+						allowedProperties: [],
+						propertyMappings: {},
+						internalLinkPrefix: "",
+						folder: "",
+						template: "",
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}),
+			);
+
+		new Setting(containerEl).setName("SPARQL endpoints").setHeading();
+
+		for (const [
+			index,
+			endpoint,
+		] of this.plugin.settings.sparqlEndpoints.entries()) {
+			new Setting(containerEl)
+				.setName(endpoint.name)
+				.addText((text) =>
+					text
+						.setPlaceholder("https://example.org/sparql")
+						.setValue(endpoint.url)
+						.onChange(async (value) => {
+							endpoint.url = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions({
+							blazegraph: "Blazegraph",
+							qlever: "QLever",
+						})
+						.setValue(endpoint.dialect)
+						.onChange(async (value) => {
+							endpoint.dialect = value as SparqlDialectName;
+							await this.plugin.saveSettings();
+						}),
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("Enabled")
+						.setValue(endpoint.enabled)
+						.onChange(async (value) => {
+							endpoint.enabled = value;
+							await this.plugin.saveSettings();
+						}),
+				)
+				.addButton((button) =>
+					button.setButtonText("Test").onClick(async () => {
+						button.setDisabled(true);
+						try {
+							await testSparqlEndpoint(endpoint);
+							new Notice(`${endpoint.name} is working`);
+						} catch (e) {
+							new Notice(`${endpoint.name} failed: ${e}`);
+						} finally {
+							button.setDisabled(false);
+						}
+					}),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Remove endpoint")
+						.onClick(async () => {
+							this.plugin.settings.sparqlEndpoints.splice(
+								index,
+								1,
+							);
+							await this.plugin.saveSettings();
+							this.display();
+						}),
+				);
+		}
+
+		let newEndpointName = "";
+		new Setting(containerEl)
+			.setName("Add endpoint")
+			.setDesc(
+				"Blazegraph endpoints support the label service and inject prefixes themselves, QLever endpoints get rdfs:label lookups and explicit prefixes",
+			)
+			.addText((text) =>
+				text.setPlaceholder("Endpoint name").onChange((value) => {
+					newEndpointName = value.trim();
+				}),
+			)
+			.addButton((button) =>
+				button.setButtonText("Add").onClick(async () => {
+					if (!newEndpointName) {
+						new Notice("Endpoint name must not be empty");
+						return;
+					}
+					this.plugin.settings.sparqlEndpoints.push({
+						name: newEndpointName,
+						url: "",
+						dialect: "blazegraph",
+						enabled: false,
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}),
+			);
+
+		new Setting(containerEl).setName("Wikibase source").setHeading();
+
+		const source = this.plugin.settings.wikibaseSource;
+
+		new Setting(containerEl)
+			.setName("Preset")
+			.setDesc(
+				"Replace the settings below with those of a known Wikibase installation",
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "Custom");
+				for (const preset of WIKIBASE_SOURCES) {
+					dropdown.addOption(preset.name, preset.name);
+				}
+				dropdown
+					.setValue(
+						WIKIBASE_SOURCES.some((p) => p.name === source.name)
+							? source.name
+							: "",
+					)
+					.onChange(async (value) => {
+						const preset = WIKIBASE_SOURCES.find(
+							(p) => p.name === value,
+						);
+						if (!preset) return;
+						this.plugin.settings.wikibaseSource = { ...preset };
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		const sourceText = (
+			name: string,
+			desc: string,
+			key: "apiUrl" | "pageUrl" | "entityUri",
+		) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) =>
+					text
+						.setPlaceholder(WIKIDATA_SOURCE[key])
+						.setValue(source[key])
+						.onChange(async (value) => {
+							source[key] = value.trim();
+							source.name = "Custom";
+							await this.plugin.saveSettings();
+						}),
+				);
+
+		sourceText(
+			"API URL",
+			"The MediaWiki action API used to search for entities",
+			"apiUrl",
+		);
+		sourceText(
+			"Entity page URL",
+			"The base URL of entity pages, so that entity URLs in frontmatter are understood",
+			"pageUrl",
+		);
+		sourceText(
+			"Entity URI namespace",
+			"The concept URI prefix identifying entities in SPARQL results",
+			"entityUri",
+		);
+
+		new Setting(containerEl)
+			.setName("Entity type")
+			.setDesc(
+				"The type of entity to search for when importing. MediaInfo entities can only be imported from SPARQL endpoints that hold them.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						item: "Item",
+						property: "Property",
+						lexeme: "Lexeme",
+						mediainfo: "MediaInfo (Commons files)",
+					})
+					.setValue(source.entityType)
+					.onChange(async (value) => {
+						source.entityType = value as WikibaseEntityType;
+						source.name = "Custom";
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("SPARQL prefixes")
+			.setDesc(
+				"PREFIX declarations sent to endpoints that do not inject them themselves (QLever)",
+			)
+			.addTextArea((text) => {
+				text.setValue(source.prefixes).onChange(async (value) => {
+					source.prefixes = value;
+					source.name = "Custom";
+					await this.plugin.saveSettings();
+				});
+				text.inputEl.rows = 8;
+			});
+
+		new Setting(containerEl).setName("Editing Wikidata").setHeading();
+
+		new Setting(containerEl)
+			.setName("Dry run")
+			.setDesc(
+				"If checked, pushing changes only logs the edits it would make to the console instead of sending them",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.editDryRun)
+					.onChange(async (value) => {
+						this.plugin.settings.editDryRun = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Edit API URL")
+			.setDesc(
+				"The MediaWiki action API edits are sent to. Leave empty to use the API of the Wikibase source, or point it at a test instance such as test.wikidata.org.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(this.plugin.settings.wikibaseSource.apiUrl)
+					.setValue(this.plugin.settings.editApiUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.editApiUrl = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Authentication")
+			.setDesc("How to log in when pushing changes")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						botpassword: "Bot password",
+						oauth: "OAuth access token",
+					})
+					.setValue(this.plugin.settings.editAuthType)
+					.onChange(async (value) => {
+						this.plugin.settings.editAuthType =
+							value as WikibaseCredentials["type"];
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		if (this.plugin.settings.editAuthType === "oauth") {
+			new Setting(containerEl)
+				.setName("OAuth access token")
+				.setDesc(
+					"An owner-only OAuth 2 access token from Special:OAuthConsumerRegistration",
+				)
+				.addText((text) => {
+					text.setValue(this.plugin.settings.editOAuthToken).onChange(
+						async (value) => {
+							this.plugin.settings.editOAuthToken = value.trim();
+							await this.plugin.saveSettings();
+						},
+					);
+					text.inputEl.type = "password";
+				});
+		} else {
+			new Setting(containerEl)
+				.setName("Bot username")
+				.setDesc(
+					'The username from Special:BotPasswords, e.g. "Example@obsidian"',
+				)
+				.addText((text) =>
+					text
+						.setValue(this.plugin.settings.editUsername)
+						.onChange(async (value) => {
+							this.plugin.settings.editUsername = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				);
+
+			new Setting(containerEl).setName("Bot password").addText((text) => {
+				text.setValue(this.plugin.settings.editPassword).onChange(
+					async (value) => {
+						this.plugin.settings.editPassword = value;
+						await this.plugin.saveSettings();
+					},
+				);
+				text.inputEl.type = "password";
+			});
+		}
+	}
+
+	private displayProfile(
+		containerEl: HTMLElement,
+		profile: ImportProfile,
+		index: number,
+	): void {
+		const profileText = (
+			name: string,
+			desc: string,
+			placeholder: string,
+			key: "internalLinkPrefix" | "folder" | "template",
+		) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) =>
+					text
+						.setPlaceholder(placeholder)
+						.setValue(profile[key])
+						.onChange(async (value) => {
+							profile[key] = value.trim();
+							await this.plugin.saveSettings();
+						}),
+				);
+
+		new Setting(containerEl)
+			.setName(profile.name)
+			.setDesc(
+				"Classes this profile applies to, such as Q5 (human) or Q571 (book), separated by commas. Instances of their subclasses match too.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Q5")
+					.setValue(profile.classes.join(", "))
+					.onChange(async (value) => {
+						profile.classes = value
+							.split(",")
+							.map((c) => c.trim().toUpperCase())
+							.filter((c) => /^Q\d+$/.test(c));
+						await this.plugin.saveSettings();
+					}),
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove profile")
+					.onClick(async () => {
+						this.plugin.settings.importProfiles.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}),
+			);
+
+		profileText(
+			"Internal link prefix",
+			"Leave empty to use the global setting",
+			this.plugin.settings.internalLinkPrefix,
+			"internalLinkPrefix",
+		);
+		profileText(
+			"Folder",
+			"Folder new notes are created in. Leave empty to follow the internal link prefix.",
+			"people",
+			"folder",
+		);
+		profileText(
+			"Template",
+			"Template for new notes. Leave empty to use the global note template.",
+			"templates/person",
+			"template",
+		);
+
+		new Setting(containerEl)
+			.setName("Allowed properties")
+			.setDesc("Leave empty to use the global setting")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("label1\nP569\n...")
+					.setValue(profile.allowedProperties.join("\n"))
+					.onChange(async (value) => {
+						profile.allowedProperties = value
+							.trim()
+							.split("\n")
+							.filter(Boolean);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Property mappings")
+			.setDesc("Added to the global property mappings")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("P569: born")
+					.setValue(
+						Object.entries(profile.propertyMappings)
+							.map(([id, key]) => `${id}: ${key}`)
+							.join("\n"),
+					)
+					.onChange(async (value) => {
+						profile.propertyMappings = parsePropertyMappings(value);
+						await this.plugin.saveSettings();
+					}),
+			);
 	}
 }
@@ -0,0 +1,300 @@
+import { type App, Modal, Notice, TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { importMedia } from "./media";
+import { getPropertiesWithProfiles, type ImportProfile } from "./profiles";
+import {
+	hasEntityReference,
+	reportEndpointFailures,
+	resolveEntityIdForFile,
+	writePropertiesToFile,
+} from "./sync";
+import { applyTemplate } from "./templates";
+import {
+	type BatchProperties,
+	type EndpointDiagnostic,
+	mergeDiagnostics,
+} from "./wikidata";
+
+/** Number of notes whose properties are fetched with a single batch query. */
+const BULK_BATCH_SIZE = 25;
+
+/** Whether a bulk import is in progress; only one may run at a time. */
+let running = false;
+
+export function isBulkImportRunning(): boolean {
+	return running;
+}
+
+/**
+ * Collect the notes a bulk import should visit. When a folder is configured
+ * every note beneath it is considered, otherwise every note in the vault that
+ * carries the entity ID frontmatter key. Notes without a usable entity ID, or
+ * a reference such as an ISBN to look one up by, are left out either way,
+ * since there is nothing to import for them.
+ */
+export function collectBulkImportFiles(
+	plugin: WikidataImporterPlugin,
+): TFile[] {
+	const folder = plugin.settings.bulkImportFolder.replace(/^\/+|\/+$/g, "");
+
+	return plugin.app.vault
+		.getMarkdownFiles()
+		.filter((file) => !folder || file.path.startsWith(`${folder}/`))
+		.filter((file) => hasEntityReference(plugin, file))
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Run `task` over `items` with at most `concurrency` tasks in flight. Stops
+ * picking up new items as soon as `shouldStop` returns true; tasks already
+ * running are allowed to finish.
+ */
+export async function runWithConcurrency<T>(
+	items: T[],
+	concurrency: number,
+	task: (item: T) => Promise<void>,
+	shouldStop: () => boolean = () => false,
+): Promise<void> {
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length && !shouldStop()) {
+			const item = items[next++];
+			await task(item);
+		}
+	};
+
+	const workers: Promise<void>[] = [];
+	for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+		workers.push(worker());
+	}
+	await Promise.all(workers);
+}
+
+class BulkImportProgressModal extends Modal {
+	cancelled = false;
+	private statusEl: HTMLElement;
+	private progressEl: HTMLProgressElement;
+	private errorsEl: HTMLElement;
+
+	constructor(app: App, total: number) {
+		super(app);
+		this.titleEl.setText("Importing properties from Wikidata");
+		this.statusEl = this.contentEl.createEl("div");
+		this.progressEl = this.contentEl.createEl("progress", {
+			attr: { max: String(total), value: "0" },
+		});
+		this.progressEl.style.width = "100%";
+		this.errorsEl = this.contentEl.createEl("small");
+
+		const buttons = this.contentEl.createEl("div", {
+			cls: "modal-button-container",
+		});
+		buttons
+			.createEl("button", { text: "Cancel", cls: "mod-warning" })
+			.addEventListener("click", () => this.close());
+	}
+
+	update(done: number, total: number, failed: number) {
+		this.statusEl.setText(`Imported ${done} of ${total} notes`);
+		this.progressEl.value = done;
+		this.errorsEl.setText(
+			failed > 0 ? `${failed} notes failed, see the console` : "",
+		);
+	}
+
+	onClose() {
+		this.cancelled = true;
+	}
+}
+
+/**
+ * Import properties for every note selected by `collectBulkImportFiles`.
+ *
+ * The remaining file paths are persisted in plugin data after each batch, so
+ * if it is cancelled or Obsidian is closed part-way through, the next run
+ * continues with the notes that have not been imported yet.
+ */
+export async function runBulkImport(plugin: WikidataImporterPlugin) {
+	if (running) {
+		new Notice("A bulk import is already running");
+		return;
+	}
+	running = true;
+	try {
+		await bulkImport(plugin);
+	} finally {
+		running = false;
+	}
+}
+
+async function bulkImport(plugin: WikidataImporterPlugin) {
+	let queue = plugin.settings.bulkImportQueue;
+	if (queue.length > 0) {
+		new Notice(`Resuming bulk import, ${queue.length} notes remaining`);
+	} else {
+		queue = collectBulkImportFiles(plugin).map((file) => file.path);
+		if (queue.length === 0) {
+			new Notice(
+				`No notes with a "${plugin.settings.entityIdKey}" property found`,
+			);
+			return;
+		}
+		plugin.settings.bulkImportQueue = queue;
+		await plugin.saveSettings();
+	}
+
+	const total = queue.length;
+	let done = 0;
+	let imported = 0;
+	let failed = 0;
+	let diagnostics: EndpointDiagnostic[] = [];
+	const remaining = new Set(queue);
+
+	const modal = new BulkImportProgressModal(plugin.app, total);
+	modal.open();
+	modal.update(done, total, failed);
+
+	const markDone = (path: string) => {
+		done++;
+		remaining.delete(path);
+		modal.update(done, total, failed);
+	};
+	const saveQueue = async () => {
+		plugin.settings.bulkImportQueue = queue.filter((p) => remaining.has(p));
+		await plugin.saveSettings();
+	};
+
+	const batches: string[][] = [];
+	for (let i = 0; i < queue.length; i += BULK_BATCH_SIZE) {
+		batches.push(queue.slice(i, i + BULK_BATCH_SIZE));
+	}
+
+	await runWithConcurrency(
+		batches,
+		plugin.settings.bulkImportConcurrency,
+		async (batch) => {
+			const files = new Map<string, { file: TFile; entityId: string }>();
+			// Notes whose entity could not be looked up by their reference.
+			const unresolved = new Set<string>();
+			for (const path of batch) {
+				const file = plugin.app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) continue;
+				try {
+					const entityId = await resolveEntityIdForFile(plugin, file);
+					if (entityId) {
+						files.set(path, { file, entityId });
+					} else {
+						unresolved.add(path);
+						console.warn(
+							`[wikidata-importer] No Wikidata entity found for "${path}"`,
+						);
+					}
+				} catch (e) {
+					unresolved.add(path);
+					console.warn(
+						`[wikidata-importer] Failed to look up the entity of "${path}":`,
+						e,
+					);
+				}
+			}
+
+			let result: BatchProperties;
+			let profiles: { [id: string]: ImportProfile | null };
+			try {
+				({ result, profiles } = await getPropertiesWithProfiles(
+					plugin,
+					Array.from(files.values()).map((f) => f.entityId),
+				));
+			} catch (e) {
+				console.warn(
+					`[wikidata-importer] Bulk import failed for batch starting at "${batch[0]}":`,
+					e,
+				);
+				// Leave the batch in the queue so that it is retried on resume.
+				failed += batch.length;
+				modal.update(done, total, failed);
+				return;
+			}
+			diagnostics = mergeDiagnostics(diagnostics, result.diagnostics);
+
+			// Save the progress once per batch rather than after every note.
+			try {
+				for (const path of batch) {
+					if (modal.cancelled) return;
+
+					const target = files.get(path);
+					const properties =
+						target && result.properties[target.entityId];
+					if (target && properties) {
+						try {
+							await writePropertiesToFile(
+								plugin,
+								target.entityId,
+								target.file,
+								properties,
+								result.propertyIds[target.entityId],
+								profiles[target.entityId],
+							);
+							await applyTemplate(
+								plugin,
+								target.entityId,
+								target.file,
+								profiles[target.entityId],
+								properties,
+								result.propertyIds[target.entityId],
+								false,
+							);
+							await importMedia(
+								plugin,
+								target.entityId,
+								target.file,
+								properties,
+								result.propertyIds[target.entityId],
+							);
+							imported++;
+						} catch (e) {
+							failed++;
+							console.warn(
+								`[wikidata-importer] Bulk import failed for "${path}":`,
+								e,
+							);
+						}
+					} else if (target) {
+						failed++;
+						console.warn(
+							`[wikidata-importer] Wikidata entity ${target.entityId} for "${path}" was not found`,
+						);
+					} else if (unresolved.has(path)) {
+						failed++;
+					}
+					markDone(path);
+				}
+			} finally {
+				await saveQueue();
+			}
+		},
+		() => modal.cancelled,
+	);
+
+	if (modal.cancelled && remaining.size > 0) {
+		new Notice(
+			`Bulk import cancelled, ${remaining.size} notes remaining. Run the command again to resume.`,
+		);
+		return;
+	}
+
+	modal.close();
+	reportEndpointFailures(diagnostics);
+	if (remaining.size > 0) {
+		new Notice(
+			`Bulk import finished with errors: ${imported} imported, ${remaining.size} notes could not be fetched. Run the command again to retry them.`,
+		);
+	} else {
+		new Notice(
+			failed > 0
+				? `Bulk import finished: ${imported} imported, ${failed} failed`
+				: `Bulk import finished: ${imported} notes imported`,
+		);
+	}
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { DataAdapter } from "obsidian";
+import { ResponseCache, type ResponseCacheOptions } from "./cache";
+import { Entity, invalidateCachedEntity, setRequestCache } from "./wikidata";
+
+const DEFAULT_CACHE_OPTIONS: ResponseCacheOptions = {
+	ttl: 60 * 60 * 1000,
+	maxEntries: 100,
+	offline: false,
+};
+
+function memoryAdapter(files: { [path: string]: string } = {}): DataAdapter {
+	return {
+		exists: async (path: string) => path in files,
+		read: async (path: string) => files[path],
+		write: async (path: string, data: string) => {
+			files[path] = data;
+		},
+	} as unknown as DataAdapter;
+}
+
+describe("ResponseCache", () => {
+	afterEach(() => setRequestCache(null));
+
+	test("persists entries to and from disk", async () => {
+		const files = {};
+		const cache = new ResponseCache(
+			memoryAdapter(files),
+			"cache.json",
+			DEFAULT_CACHE_OPTIONS,
+		);
+		cache.set("key", { hello: "world" });
+		await cache.save();
+
+		const reloaded = new ResponseCache(
+			memoryAdapter(files),
+			"cache.json",
+			DEFAULT_CACHE_OPTIONS,
+		);
+		await reloaded.load();
+		expect(reloaded.get("key")).toEqual({
+			value: { hello: "world" },
+			stale: false,
+		});
+	});
+
+	test("marks entries older than the TTL as stale", () => {
+		const cache = new ResponseCache(memoryAdapter(), "cache.json", {
+			...DEFAULT_CACHE_OPTIONS,
+			ttl: -1,
+		});
+		cache.set("key", 1);
+		expect(cache.get("key")?.stale).toBe(true);
+	});
+
+	test("evicts the oldest entries beyond the size cap", () => {
+		const cache = new ResponseCache(memoryAdapter(), "cache.json", {
+			...DEFAULT_CACHE_OPTIONS,
+			maxEntries: 2,
+		});
+		cache.set("a", 1);
+		cache.set("b", 2);
+		cache.set("a", 3);
+		cache.set("c", 4);
+
+		expect(cache.size).toBe(2);
+		expect(cache.get("b")).toBeUndefined();
+		expect(cache.get("a")?.value).toBe(3);
+	});
+
+	test("drops the entries that mention an edited entity", () => {
+		const cache = new ResponseCache(
+			memoryAdapter(),
+			"cache.json",
+			DEFAULT_CACHE_OPTIONS,
+		);
+		const sparql =
+			"https://query.wikidata.org/sparql\nSELECT * WHERE { VALUES ?item { <http://www.wikidata.org/entity/Q42> } }";
+		const terms =
+			"https://www.wikidata.org/w/api.php?action=wbgetentities&format=json&ids=Q5|Q42&props=labels";
+		const other =
+			"https://www.wikidata.org/w/api.php?action=wbgetentities&format=json&ids=Q420&props=labels";
+		for (const key of [sparql, terms, other]) cache.set(key, 1);
+		setRequestCache(cache);
+
+		invalidateCachedEntity("Q42");
+		expect(cache.get(sparql)).toBeUndefined();
+		expect(cache.get(terms)).toBeUndefined();
+		expect(cache.get(other)?.value).toBe(1);
+	});
+
+	test("serves search results from the cache without a request", async () => {
+		const cache = new ResponseCache(
+			memoryAdapter(),
+			"cache.json",
+			DEFAULT_CACHE_OPTIONS,
+		);
+		const url =
+			"https://www.wikidata.org/w/api.php?action=wbsearchentities&format=json&language=en&uselang=en&type=item&limit=10&search=cached";
+		cache.set(url, {
+			search: [{ id: "Q1", label: "Cached", description: "From disk" }],
+			success: 1,
+		});
+		setRequestCache(cache);
+
+		const results = await Entity.search("cached", { language: "en" });
+		expect(results.map((e) => e.id)).toEqual(["Q1"]);
+	});
+});
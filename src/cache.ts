@@ -0,0 +1,126 @@
+import type { DataAdapter } from "obsidian";
+
+import type { CachedResponse, RequestCache } from "./wikidata";
+
+export interface ResponseCacheOptions {
+	/** How long an entry is considered fresh, in milliseconds. */
+	ttl: number;
+	/** Maximum number of entries kept; the oldest are evicted first. */
+	maxEntries: number;
+	/** Serve stale entries when a request fails instead of throwing. */
+	offline: boolean;
+}
+
+interface CacheEntry {
+	storedAt: number;
+	value: unknown;
+}
+
+/** Delay before pending changes are written to disk, in milliseconds. */
+const SAVE_DELAY = 2000;
+
+/**
+ * Persistent cache for SPARQL and search responses, stored as a single JSON
+ * file in the plugin folder. Entries are kept in insertion order so that the
+ * oldest can be evicted once `maxEntries` is exceeded.
+ */
+export class ResponseCache implements RequestCache {
+	options: ResponseCacheOptions;
+	private adapter: DataAdapter;
+	private path: string;
+	private entries = new Map<string, CacheEntry>();
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		adapter: DataAdapter,
+		path: string,
+		options: ResponseCacheOptions,
+	) {
+		this.adapter = adapter;
+		this.path = path;
+		this.options = options;
+	}
+
+	get serveStaleOnError(): boolean {
+		return this.options.offline;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	async load(): Promise<void> {
+		if (!(await this.adapter.exists(this.path))) return;
+
+		try {
+			const json = JSON.parse(await this.adapter.read(this.path));
+			this.entries = new Map(Object.entries(json));
+		} catch (e) {
+			console.warn(
+				`[wikidata-importer] Ignoring unreadable cache file "${this.path}":`,
+				e,
+			);
+			this.entries = new Map();
+		}
+		this.evict();
+	}
+
+	get(key: string): CachedResponse | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		return {
+			value: entry.value,
+			stale: Date.now() - entry.storedAt > this.options.ttl,
+		};
+	}
+
+	set(key: string, value: unknown): void {
+		this.entries.delete(key);
+		this.entries.set(key, { storedAt: Date.now(), value });
+		this.evict();
+		this.scheduleSave();
+	}
+
+	invalidate(matches: (key: string) => boolean): void {
+		let changed = false;
+		for (const key of Array.from(this.entries.keys())) {
+			if (matches(key)) changed = this.entries.delete(key) || changed;
+		}
+		if (changed) this.scheduleSave();
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+		await this.save();
+	}
+
+	async save(): Promise<void> {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		const json: { [key: string]: CacheEntry } = {};
+		this.entries.forEach((entry, key) => {
+			json[key] = entry;
+		});
+		await this.adapter.write(this.path, JSON.stringify(json));
+	}
+
+	private evict() {
+		const max = Math.max(0, this.options.maxEntries);
+		for (const key of this.entries.keys()) {
+			if (this.entries.size <= max) break;
+			this.entries.delete(key);
+		}
+	}
+
+	private scheduleSave() {
+		if (this.saveTimer !== null) return;
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.save().catch((e) =>
+				console.warn("[wikidata-importer] Failed to save cache:", e),
+			);
+		}, SAVE_DELAY);
+	}
+}
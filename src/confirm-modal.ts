@@ -0,0 +1,42 @@
+import { type App, Modal } from "obsidian";
+
+/**
+ * A modal showing what an action is about to do, with buttons to go ahead or
+ * cancel. Subclasses describe the action in `contentEl`; the buttons are
+ * added below it when the modal is opened.
+ */
+export class ConfirmModal extends Modal {
+	private confirmText: string;
+	private resolve: (confirmed: boolean) => void = () => {};
+
+	constructor(app: App, title: string, confirmText: string) {
+		super(app);
+		this.titleEl.setText(title);
+		this.confirmText = confirmText;
+	}
+
+	/** Open the modal and resolve once the user confirms or dismisses it. */
+	confirm(): Promise<boolean> {
+		const buttons = this.contentEl.createEl("div", {
+			cls: "modal-button-container",
+		});
+		buttons
+			.createEl("button", { text: this.confirmText, cls: "mod-cta" })
+			.addEventListener("click", () => {
+				this.resolve(true);
+				this.close();
+			});
+		buttons
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => this.close());
+
+		return new Promise((resolve) => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onClose() {
+		this.resolve(false);
+	}
+}
@@ -0,0 +1,109 @@
+import { type TAbstractFile, TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { getEntityIdForFile } from "./sync";
+
+/**
+ * Index of the notes in the vault by the entity ID in their frontmatter. It is
+ * built from the metadata cache on first use and kept up to date as notes
+ * change, are renamed or are deleted.
+ */
+export class EntityIndex {
+	private plugin: WikidataImporterPlugin;
+	/** Note paths by entity ID, or null until the index is built. */
+	private paths: Map<string, string[]> | null = null;
+	/** Entity IDs by note path. */
+	private ids = new Map<string, string>();
+
+	constructor(plugin: WikidataImporterPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Keep the index up to date. Call once when the plugin loads. */
+	register(): void {
+		const { metadataCache, vault } = this.plugin.app;
+		this.plugin.registerEvent(
+			metadataCache.on("changed", (file) => this.update(file)),
+		);
+		this.plugin.registerEvent(
+			vault.on("delete", (file) => this.remove(file.path)),
+		);
+		this.plugin.registerEvent(
+			vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+				this.remove(oldPath);
+				if (file instanceof TFile) this.update(file);
+			}),
+		);
+	}
+
+	/** Rebuild the index on next use, e.g. after the entity ID key changed. */
+	invalidate(): void {
+		this.paths = null;
+	}
+
+	/** The note for an entity, if there is one. If several notes carry the
+	 *  same ID, the first by path is returned. */
+	get(entityId: string): TFile | null {
+		const path = this.build().get(entityId)?.[0];
+		const file = path
+			? this.plugin.app.vault.getAbstractFileByPath(path)
+			: null;
+		return file instanceof TFile ? file : null;
+	}
+
+	has(entityId: string): boolean {
+		return this.build().has(entityId);
+	}
+
+	/**
+	 * The link text for an entity's note, or null if it has none. Follows the
+	 * vault's link format setting.
+	 */
+	linkPath(entityId: string): string | null {
+		const file = this.get(entityId);
+		return file
+			? this.plugin.app.metadataCache.fileToLinktext(file, "", true)
+			: null;
+	}
+
+	private build(): Map<string, string[]> {
+		if (this.paths) return this.paths;
+
+		this.paths = new Map();
+		this.ids.clear();
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			this.add(file);
+		}
+		return this.paths;
+	}
+
+	private add(file: TFile) {
+		const entityId = getEntityIdForFile(this.plugin, file);
+		if (!entityId || !this.paths) return;
+
+		const paths = this.paths.get(entityId) ?? [];
+		paths.push(file.path);
+		paths.sort();
+		this.paths.set(entityId, paths);
+		this.ids.set(file.path, entityId);
+	}
+
+	private remove(path: string) {
+		const entityId = this.ids.get(path);
+		if (!entityId || !this.paths) return;
+
+		this.ids.delete(path);
+		const paths = this.paths.get(entityId)?.filter((p) => p !== path);
+		if (paths?.length) {
+			this.paths.set(entityId, paths);
+		} else {
+			this.paths.delete(entityId);
+		}
+	}
+
+	private update(file: TFile) {
+		if (!this.paths) return;
+		this.remove(file.path);
+		this.add(file);
+	}
+}
@@ -0,0 +1,307 @@
+import { type App, Notice, normalizePath, type TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { ConfirmModal } from "./confirm-modal";
+import { getEntityIdForFile } from "./sync";
+import { Entity, type LinkVariables } from "./wikidata";
+
+interface LinkRewrite {
+	file: TFile;
+	/** New link text by old link text. */
+	links: Map<string, string>;
+}
+
+/** A note to move so that the rewritten links to it resolve. */
+interface NoteRename {
+	file: TFile;
+	path: string;
+}
+
+interface LinkMigrationPlan {
+	rewrites: LinkRewrite[];
+	/** Renames by the current path of the note. */
+	renames: Map<string, NoteRename>;
+	/** Links that follow the old template but cannot be rewritten. */
+	skipped: number;
+}
+
+/** How long to wait for the metadata cache to catch up after rewriting. */
+const METADATA_TIMEOUT = 5000;
+
+/** The placeholders Entity.buildLink fills in. */
+const PLACEHOLDERS = ["label", "description", "lang", "qid", "id", "numericId"];
+
+/** The known placeholders a link template uses. */
+function placeholders(template: string): string[] {
+	return Array.from(template.matchAll(/\$\{(\w+)\}/g), (m) => m[1]).filter(
+		(name) => PLACEHOLDERS.includes(name),
+	);
+}
+
+/**
+ * The path `target`, found through the link target `oldTarget`, moves to so
+ * that `newTarget` finds it instead, or null if the link does not name the
+ * end of the note's path.
+ */
+function renamedPath(
+	target: TFile,
+	oldTarget: string,
+	newTarget: string,
+): string | null {
+	const stem = target.path.replace(/\.md$/, "");
+	const folder = stem.substring(0, stem.length - oldTarget.length);
+	if (
+		stem.toLowerCase() !== `${folder}${oldTarget}`.toLowerCase() ||
+		(folder !== "" && !folder.endsWith("/"))
+	) {
+		return null;
+	}
+	return normalizePath(`${folder}${newTarget}.md`);
+}
+
+/**
+ * Work out the new text of a link written with `oldTemplate`, or return null
+ * if it was not written with it. Values the old link does not carry, such as
+ * the entity ID when only the label was in the link, are taken from the note
+ * the link points to. If no note matches the new link, the note the old one
+ * pointed to is planned to be renamed to match it.
+ *
+ * Returns undefined if a value cannot be found, or if the new link cannot be
+ * made to resolve: the old one points to no note either, or the note would
+ * need a name another note has or is planned to get.
+ */
+function rewriteLink(
+	plugin: WikidataImporterPlugin,
+	link: string,
+	sourcePath: string,
+	oldTemplate: string,
+	newTemplate: string,
+	renames: Map<string, NoteRename>,
+): string | null | undefined {
+	const parsed = Entity.parseLink(oldTemplate, link);
+	if (!parsed) return null;
+
+	const { metadataCache, vault } = plugin.app;
+	const vars: Partial<LinkVariables> = { ...parsed };
+	const oldTarget = Entity.linkTarget(link);
+	const target = metadataCache.getFirstLinkpathDest(oldTarget, sourcePath);
+	if (!vars.id && target) {
+		vars.id = getEntityIdForFile(plugin, target) ?? undefined;
+	}
+	if (vars.label === undefined && target) {
+		vars.label = target.basename;
+	}
+
+	for (const name of placeholders(newTemplate)) {
+		const known =
+			name === "qid" || name === "id" || name === "numericId"
+				? vars.id
+				: vars[name as keyof LinkVariables];
+		if (known === undefined) return undefined;
+	}
+	const rewritten = Entity.buildLink(newTemplate, {
+		...vars,
+		id: vars.id ?? "",
+	});
+	const newTarget = Entity.linkTarget(rewritten);
+	if (metadataCache.getFirstLinkpathDest(newTarget, sourcePath)) {
+		return rewritten;
+	}
+	if (!target) return undefined;
+
+	const path = renamedPath(target, oldTarget, newTarget);
+	if (!path || vault.getAbstractFileByPath(path)) return undefined;
+	const planned = renames.get(target.path);
+	if (planned) return planned.path === path ? rewritten : undefined;
+	for (const rename of renames.values()) {
+		if (rename.path.toLowerCase() === path.toLowerCase()) return undefined;
+	}
+	renames.set(target.path, { file: target, path });
+	return rewritten;
+}
+
+/**
+ * Find the frontmatter links in the vault written with `oldTemplate`, what
+ * they become with `newTemplate` and which notes must be renamed for them to
+ * resolve.
+ */
+function planLinkRewrites(
+	plugin: WikidataImporterPlugin,
+	oldTemplate: string,
+	newTemplate: string,
+): LinkMigrationPlan {
+	const rewrites: LinkRewrite[] = [];
+	const renames = new Map<string, NoteRename>();
+	let skipped = 0;
+
+	for (const file of plugin.app.vault.getMarkdownFiles()) {
+		const frontmatter =
+			plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) continue;
+
+		const links = new Map<string, string>();
+		const values = Object.values(frontmatter).flatMap((v) =>
+			Array.isArray(v) ? v : [v],
+		);
+		for (const value of values) {
+			const match =
+				typeof value === "string" && value.match(/^\[\[(.+)\]\]$/);
+			if (!match || links.has(match[1])) continue;
+
+			const rewritten = rewriteLink(
+				plugin,
+				match[1],
+				file.path,
+				oldTemplate,
+				newTemplate,
+				renames,
+			);
+			if (rewritten === undefined) skipped++;
+			else if (rewritten !== null && rewritten !== match[1]) {
+				links.set(match[1], rewritten);
+			}
+		}
+		if (links.size > 0) rewrites.push({ file, links });
+	}
+
+	return { rewrites, renames, skipped };
+}
+
+class LinkMigrationModal extends ConfirmModal {
+	constructor(
+		app: App,
+		oldTemplate: string,
+		newTemplate: string,
+		{ rewrites, renames, skipped }: LinkMigrationPlan,
+	) {
+		super(app, "Rewrite links?", "Rewrite");
+
+		const count = rewrites.reduce((n, r) => n + r.links.size, 0);
+		this.contentEl.createEl("p", {
+			text: `The internal link prefix changed from "${oldTemplate}" to "${newTemplate}". Rewrite ${count} links in ${rewrites.length} notes to match?`,
+		});
+		const example = rewrites[0]?.links.entries().next().value;
+		if (example) {
+			this.contentEl.createEl("p", {
+				text: `For example, [[${example[0]}]] becomes [[${example[1]}]].`,
+			});
+		}
+		if (renames.size > 0) {
+			const rename: NoteRename = renames.values().next().value;
+			this.contentEl.createEl("p", {
+				text: `${renames.size} linked notes will be renamed to match their new links, e.g. "${rename.file.path}" to "${rename.path}".`,
+			});
+		}
+		if (skipped > 0) {
+			this.contentEl.createEl("p", {
+				text: `${skipped} links will be left as they are, because they lack a value the new prefix needs or point to no note.`,
+			});
+		}
+	}
+}
+
+/** Resolve once `done` returns true, or after `timeout` milliseconds. */
+async function waitFor(done: () => boolean, timeout: number) {
+	const until = Date.now() + timeout;
+	while (!done() && Date.now() < until) {
+		await new Promise((resolve) => window.setTimeout(resolve, 50));
+	}
+}
+
+/**
+ * Offer to rewrite the entity links in every note's frontmatter after the
+ * internal link prefix changed from `oldTemplate` to `newTemplate`, and to
+ * rename the linked notes to match. Only links that follow the old template
+ * and resolve to a note afterwards are touched. Returns whether the user went
+ * ahead.
+ */
+export async function migrateLinks(
+	plugin: WikidataImporterPlugin,
+	oldTemplate: string,
+	newTemplate: string,
+): Promise<boolean> {
+	const { app } = plugin;
+	const plan = planLinkRewrites(plugin, oldTemplate, newTemplate);
+	if (plan.rewrites.length === 0) {
+		new Notice(
+			plan.skipped > 0
+				? `None of the ${plan.skipped} links with the old prefix can be rewritten`
+				: "No links use the old prefix",
+		);
+		return false;
+	}
+
+	const confirmed = await new LinkMigrationModal(
+		app,
+		oldTemplate,
+		newTemplate,
+		plan,
+	).confirm();
+	if (!confirmed) return false;
+
+	// The links are rewritten before the notes are renamed, and the renames
+	// wait until the metadata cache has seen the new links, so that Obsidian
+	// does not also update them when it updates the links to renamed notes.
+	const pending = new Set<string>();
+	const ref = app.metadataCache.on("changed", (file) =>
+		pending.delete(file.path),
+	);
+	let rewritten = 0;
+	let failed = 0;
+	for (const { file, links } of plan.rewrites) {
+		pending.add(file.path);
+		try {
+			await app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const rewrite = (value: unknown) => {
+					const match =
+						typeof value === "string" &&
+						value.match(/^\[\[(.+)\]\]$/);
+					const link = match ? links.get(match[1]) : undefined;
+					return link ? `[[${link}]]` : value;
+				};
+				for (const [key, value] of Object.entries(frontmatter)) {
+					frontmatter[key] = Array.isArray(value)
+						? value.map(rewrite)
+						: rewrite(value);
+				}
+			});
+			rewritten++;
+		} catch (e) {
+			failed++;
+			pending.delete(file.path);
+			console.warn(
+				`[wikidata-importer] Failed to rewrite links in "${file.path}":`,
+				e,
+			);
+		}
+	}
+	await waitFor(() => pending.size === 0, METADATA_TIMEOUT);
+	app.metadataCache.offref(ref);
+
+	let renamed = 0;
+	for (const { file, path } of plan.renames.values()) {
+		try {
+			const folder = path.substring(0, path.lastIndexOf("/"));
+			if (folder && !app.vault.getAbstractFileByPath(folder)) {
+				await app.vault.createFolder(folder);
+			}
+			await app.fileManager.renameFile(file, path);
+			renamed++;
+		} catch (e) {
+			failed++;
+			console.warn(
+				`[wikidata-importer] Failed to rename "${file.path}" to "${path}":`,
+				e,
+			);
+		}
+	}
+
+	const summary =
+		renamed > 0
+			? `Rewrote links in ${rewritten} notes and renamed ${renamed} notes`
+			: `Rewrote links in ${rewritten} notes`;
+	new Notice(
+		failed > 0 ? `${summary}, ${failed} failed, see the console` : summary,
+	);
+	return true;
+}
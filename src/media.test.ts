@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import {
+	commonsFileName,
+	commonsFileUrl,
+	removeMediaSection,
+	renderMediaSection,
+	upsertMediaSection,
+} from "./media";
+import { pickWikipediaArticle, wikipediaUrl } from "./wikidata";
+
+const SECTION = renderMediaSection(["attachments/Douglas adams portrait.jpg"], {
+	url: "https://en.wikipedia.org/wiki/Douglas_Adams",
+	extract: "Douglas Noël Adams was an English author.",
+});
+
+describe("Commons files", () => {
+	test("accept file names and Special:FilePath URLs", () => {
+		expect(commonsFileUrl("Douglas adams portrait.jpg")).toBe(
+			"https://commons.wikimedia.org/wiki/Special:FilePath/Douglas%20adams%20portrait.jpg",
+		);
+		expect(
+			commonsFileName(
+				"http://commons.wikimedia.org/wiki/Special:FilePath/Douglas%20adams%20portrait.jpg",
+			),
+		).toBe("Douglas adams portrait.jpg");
+		expect(commonsFileName("AC/DC: Logo.svg")).toBe("AC_DC_ Logo.svg");
+	});
+});
+
+describe("Wikipedia articles", () => {
+	test("picks the first configured language with an article", () => {
+		const sitelinks = { enwiki: "Douglas Adams", dewiki: "Douglas Adams" };
+		expect(pickWikipediaArticle(sitelinks, "mul, de, en")).toEqual({
+			lang: "de",
+			title: "Douglas Adams",
+		});
+		expect(pickWikipediaArticle(sitelinks, "fr")?.lang).toBe("en");
+		expect(pickWikipediaArticle({}, "en")).toBeNull();
+		expect(wikipediaUrl("en", "Douglas Adams")).toBe(
+			"https://en.wikipedia.org/wiki/Douglas_Adams",
+		);
+	});
+});
+
+describe("upsertMediaSection", () => {
+	test("inserts the section right after the frontmatter", () => {
+		expect(
+			upsertMediaSection("---\nborn: 1952\n---\nMy notes\n", SECTION),
+		).toBe(`---\nborn: 1952\n---\n\n${SECTION}\n\nMy notes\n`);
+		expect(upsertMediaSection("", SECTION)).toBe(`${SECTION}\n`);
+	});
+
+	test("replaces an existing section", () => {
+		const content = `---\nborn: 1952\n---\n\n${renderMediaSection([], null)}\n\nMy notes\n`;
+		expect(upsertMediaSection(content, SECTION)).toBe(
+			`---\nborn: 1952\n---\n\n${SECTION}\n\nMy notes\n`,
+		);
+	});
+
+	test("removes a section that is no longer needed", () => {
+		const content = `---\nborn: 1952\n---\n\n${SECTION}\n\nMy notes\n`;
+		expect(removeMediaSection(content)).toBe(
+			"---\nborn: 1952\n---\n\nMy notes\n",
+		);
+		expect(removeMediaSection("My notes\n")).toBe("My notes\n");
+	});
+});
@@ -0,0 +1,224 @@
+import { normalizePath, type TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { request } from "./request";
+import {
+	Entity,
+	getWikipediaExtract,
+	pickWikipediaArticle,
+	type Properties,
+	wikipediaUrl,
+} from "./wikidata";
+
+/** Markers delimiting the images and Wikipedia introduction in a note. */
+export const MEDIA_SECTION_START = "<!-- wikipedia:start -->";
+export const MEDIA_SECTION_END = "<!-- wikipedia:end -->";
+
+/** Properties whose Commons files are downloaded: image and logo image. */
+const IMAGE_PROPERTIES = ["P18", "P154"];
+
+/** Width raster images are downloaded at, to keep attachments small. */
+const IMAGE_WIDTH = 1280;
+
+const COMMONS_FILE_PATH =
+	"https://commons.wikimedia.org/wiki/Special:FilePath/";
+
+/**
+ * The URL of a Commons file, given a commonsMedia value: either the file name
+ * or, as SPARQL returns it, its Special:FilePath URL.
+ */
+export function commonsFileUrl(value: string): string {
+	return value.startsWith("http")
+		? value
+		: `${COMMONS_FILE_PATH}${encodeURIComponent(value)}`;
+}
+
+/** The URL of a Commons file scaled to `width` pixels. */
+export function commonsThumbnailUrl(value: string, width: number): string {
+	const url = commonsFileUrl(value);
+	return `${url}${url.includes("?") ? "&" : "?"}width=${width}`;
+}
+
+/**
+ * The name a Commons file is saved under in the vault, with the characters
+ * Obsidian does not allow in file names replaced.
+ */
+export function commonsFileName(value: string): string {
+	const name = value.startsWith("http")
+		? decodeURIComponent(value.substring(value.lastIndexOf("/") + 1))
+		: value;
+	return name.replace(/[*"\\/<>:|?#^[\]]/g, "_");
+}
+
+/**
+ * Render the section holding the embeds of an entity's images and the
+ * introduction of its Wikipedia article.
+ *
+ * @param images   Vault paths of the downloaded images.
+ * @param article  The article's URL and introduction, if there is one.
+ */
+export function renderMediaSection(
+	images: string[],
+	article: { url: string; extract: string } | null,
+): string {
+	const parts = images.map((path) => `![[${path}]]`);
+	if (article) {
+		parts.push(`${article.extract}\n\n[Wikipedia](${article.url})`);
+	}
+	return [MEDIA_SECTION_START, ...parts, MEDIA_SECTION_END].join("\n\n");
+}
+
+/** Remove the media section from `content`, if it has one. */
+export function removeMediaSection(content: string): string {
+	const start = content.indexOf(MEDIA_SECTION_START);
+	const end = content.indexOf(MEDIA_SECTION_END, start);
+	if (start < 0 || end < 0) return content;
+	const before = content.substring(0, start).trimEnd();
+	const after = content.substring(end + MEDIA_SECTION_END.length).trim();
+	return [before, after].filter(Boolean).join("\n\n") + "\n";
+}
+
+/**
+ * Put `section` in place of the media section of `content`, or right after
+ * the frontmatter if there is none yet.
+ */
+export function upsertMediaSection(content: string, section: string): string {
+	const start = content.indexOf(MEDIA_SECTION_START);
+	const end = content.indexOf(MEDIA_SECTION_END, start);
+	if (start >= 0 && end >= 0) {
+		return (
+			content.substring(0, start) +
+			section +
+			content.substring(end + MEDIA_SECTION_END.length)
+		);
+	}
+
+	const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/);
+	const head = frontmatter ? frontmatter[0].trimEnd() : "";
+	const body = content.substring(frontmatter?.[0].length ?? 0).trim();
+	return [head, section, body].filter(Boolean).join("\n\n") + "\n";
+}
+
+/**
+ * Download a Commons file into the attachments folder, unless a file of that
+ * name is already in the vault. Returns the path to embed.
+ */
+async function downloadImage(
+	plugin: WikidataImporterPlugin,
+	value: string,
+	file: TFile,
+): Promise<string> {
+	const { app, settings } = plugin;
+	const name = commonsFileName(value);
+	const existing = app.metadataCache.getFirstLinkpathDest(name, file.path);
+	if (existing) return existing.path;
+
+	let path: string;
+	const folder = normalizePath(settings.attachmentsFolder.trim());
+	if (settings.attachmentsFolder.trim()) {
+		path = normalizePath(`${folder}/${name}`);
+		if (!app.vault.getAbstractFileByPath(folder)) {
+			await app.vault.createFolder(folder);
+		}
+	} else {
+		// Follow Obsidian's own attachment settings.
+		path = await app.fileManager.getAvailablePathForAttachment(
+			name,
+			file.path,
+		);
+	}
+
+	const raster = /\.(jpe?g|png|gif|webp)$/i.test(name);
+	const response = await request(
+		raster
+			? commonsThumbnailUrl(value, IMAGE_WIDTH)
+			: commonsFileUrl(value),
+	);
+	await app.vault.createBinary(path, response.arrayBuffer);
+	return path;
+}
+
+/** The Wikipedia article of an entity in the configured languages. */
+async function getArticle(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+): Promise<{ lang: string; title: string } | null> {
+	const { settings } = plugin;
+	const terms = await Entity.getTerms(entityId, {
+		language: settings.language,
+		source: settings.wikibaseSource,
+	});
+	return pickWikipediaArticle(terms.sitelinks, settings.language);
+}
+
+/**
+ * The URL of an entity's Wikipedia article to store under `wikipediaKey`, or
+ * null if that is turned off or there is no article. It is written along
+ * with the other properties, see writePropertiesToFile.
+ */
+export async function getSitelink(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+): Promise<string | null> {
+	const { settings } = plugin;
+	if (!settings.importSitelink || !settings.wikipediaKey) return null;
+	const article = await getArticle(plugin, entityId);
+	return article ? wikipediaUrl(article.lang, article.title) : null;
+}
+
+/**
+ * Import what an entity's claims only point at, as enabled in the settings:
+ * the introduction of its Wikipedia article and its image and logo,
+ * downloaded from Commons, into a delimited section of the note that is
+ * replaced on every import, and removed once there is nothing to put in it.
+ *
+ * @param properties   The entity's fetched properties, before any filtering.
+ * @param propertyIds  Property IDs keyed by frontmatter key.
+ */
+export async function importMedia(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+	file: TFile,
+	properties: Properties,
+	propertyIds: { [key: string]: string },
+) {
+	const { settings } = plugin;
+	if (!settings.importExtract && !settings.downloadImages) return;
+
+	let article: { url: string; extract: string } | null = null;
+	if (settings.importExtract) {
+		const picked = await getArticle(plugin, entityId);
+		const extract =
+			picked && (await getWikipediaExtract(picked.lang, picked.title));
+		if (picked && extract) {
+			article = { url: wikipediaUrl(picked.lang, picked.title), extract };
+		}
+	}
+
+	const images: string[] = [];
+	if (settings.downloadImages) {
+		for (const [key, id] of Object.entries(propertyIds)) {
+			if (!IMAGE_PROPERTIES.includes(id)) continue;
+			const first = properties[key]?.[0];
+			const value = typeof first === "object" ? first.value : first;
+			if (typeof value !== "string") continue;
+			try {
+				images.push(await downloadImage(plugin, value, file));
+			} catch (e) {
+				console.warn(
+					`[wikidata-importer] Failed to download "${value}":`,
+					e,
+				);
+			}
+		}
+	}
+
+	if (images.length === 0 && !article) {
+		await plugin.app.vault.process(file, removeMediaSection);
+		return;
+	}
+	const section = renderMediaSection(images, article);
+	await plugin.app.vault.process(file, (content) =>
+		upsertMediaSection(content, section),
+	);
+}
@@ -0,0 +1,136 @@
+import { normalizePath } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { getPropertiesOptions } from "./sync";
+import { type BatchProperties, Entity, mergeDiagnostics } from "./wikidata";
+
+/**
+ * Import settings for one kind of entity, such as people, books or places.
+ * Empty fields fall back to the global settings.
+ */
+export interface ImportProfile {
+	name: string;
+	/** Classes (e.g. Q5 for humans) whose instances, including instances of
+	 *  their subclasses, use this profile. */
+	classes: string[];
+	/** Keys or property IDs to import. */
+	allowedProperties: string[];
+	/** Merged over the global property mappings. */
+	propertyMappings: { [propertyId: string]: string };
+	internalLinkPrefix: string;
+	/** Folder new notes are created in. */
+	folder: string;
+	/** Path of the template for new notes, overriding the global one. */
+	template: string;
+}
+
+/**
+ * Pick the import profile for each entity: the first profile, in settings
+ * order, listing a class the entity is an instance of. Entities no profile
+ * applies to map to null. No query is made if there are no profiles.
+ */
+export async function selectProfiles(
+	plugin: WikidataImporterPlugin,
+	entityIds: string[],
+): Promise<{ [id: string]: ImportProfile | null }> {
+	const ret: { [id: string]: ImportProfile | null } = {};
+	for (const id of entityIds) ret[id] = null;
+
+	const profiles = plugin.settings.importProfiles.filter(
+		(profile) => profile.classes.length > 0,
+	);
+	if (profiles.length === 0) return ret;
+
+	const instanceOf = await Entity.getInstanceOfMany(
+		entityIds,
+		profiles.flatMap((profile) => profile.classes),
+		{
+			endpoints: plugin.settings.sparqlEndpoints,
+			source: plugin.settings.wikibaseSource,
+		},
+	);
+	for (const id of entityIds) {
+		ret[id] =
+			profiles.find((profile) =>
+				profile.classes.some((c) => instanceOf[id]?.includes(c)),
+			) ?? null;
+	}
+	return ret;
+}
+
+export async function selectProfile(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+): Promise<ImportProfile | null> {
+	return (await selectProfiles(plugin, [entityId]))[entityId];
+}
+
+/**
+ * Fetch the properties of many entities, each with the options of its import
+ * profile. Entities sharing a profile are fetched in one batch. With `cache`
+ * off the request cache is bypassed, for when the values must be current.
+ */
+export async function getPropertiesWithProfiles(
+	plugin: WikidataImporterPlugin,
+	entityIds: string[],
+	cache = true,
+): Promise<{
+	result: BatchProperties;
+	profiles: { [id: string]: ImportProfile | null };
+}> {
+	const profiles = await selectProfiles(plugin, entityIds);
+
+	const groups = new Map<ImportProfile | null, string[]>();
+	for (const id of entityIds) {
+		const group = groups.get(profiles[id]) ?? [];
+		group.push(id);
+		groups.set(profiles[id], group);
+	}
+
+	const result: BatchProperties = {
+		properties: {},
+		propertyIds: {},
+		links: {},
+		notFound: [],
+		diagnostics: [],
+	};
+	for (const [profile, ids] of groups) {
+		const group = await Entity.getPropertiesMany(ids, {
+			...getPropertiesOptions(plugin, profile),
+			cache,
+		});
+		Object.assign(result.properties, group.properties);
+		Object.assign(result.propertyIds, group.propertyIds);
+		Object.assign(result.links, group.links);
+		result.notFound.push(...group.notFound);
+		result.diagnostics = mergeDiagnostics(
+			result.diagnostics,
+			group.diagnostics,
+		);
+	}
+	return { result, profiles };
+}
+
+/** The path a new note for an entity is created at. */
+export function newNotePath(
+	plugin: WikidataImporterPlugin,
+	entity: Entity,
+	profile: ImportProfile | null,
+): string {
+	const link = Entity.buildLink(
+		profile?.internalLinkPrefix || plugin.settings.internalLinkPrefix,
+		{
+			id: entity.id,
+			label: entity.label,
+			description: entity.description,
+			lang:
+				plugin.settings.language
+					.split(",")
+					.map((l) => l.trim())
+					.find((l) => l && l !== "mul") ?? "en",
+		},
+	);
+	const name = `${Entity.linkTarget(link)}.md`;
+	if (!profile?.folder) return name;
+	return normalizePath(`${profile.folder}/${name.split("/").pop()}`);
+}
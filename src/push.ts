@@ -0,0 +1,251 @@
+import { type App, Notice, type TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { ConfirmModal } from "./confirm-modal";
+import { selectProfile } from "./profiles";
+import { getEntityIdForFile, getPropertiesOptions } from "./sync";
+import {
+	type Claim,
+	diffProperties,
+	type PropertyChange,
+	serialise,
+	toDatavalue,
+	WikibaseClient,
+	type WikibaseCredentials,
+} from "./wikibase";
+import { Entity, invalidateCachedEntity } from "./wikidata";
+
+function getCredentials(plugin: WikidataImporterPlugin): WikibaseCredentials {
+	return plugin.settings.editAuthType === "oauth"
+		? { type: "oauth", token: plugin.settings.editOAuthToken }
+		: {
+				type: "botpassword",
+				username: plugin.settings.editUsername,
+				password: plugin.settings.editPassword,
+			};
+}
+
+/**
+ * A change to push, with the edit it will be pushed as: replacing the value
+ * of `claim`, or without one, adding a new claim.
+ */
+interface PlannedEdit {
+	change: PropertyChange;
+	claim?: Claim;
+	datavalue: unknown;
+}
+
+/** A change that cannot be pushed, and why. */
+interface SkippedChange {
+	change: PropertyChange;
+	reason: string;
+}
+
+class PushConfirmModal extends ConfirmModal {
+	constructor(
+		app: App,
+		edits: PlannedEdit[],
+		skipped: SkippedChange[],
+		dryRun: boolean,
+	) {
+		super(
+			app,
+			dryRun ? "Push to Wikidata (dry run)" : "Push to Wikidata",
+			dryRun ? "Dry run" : "Push",
+		);
+
+		const list = this.contentEl.createEl("ul");
+		for (const { change, claim } of edits) {
+			const property = `${change.key} (${change.propertyId})`;
+			list.createEl("li", {
+				text: claim
+					? `${property}: replace ${serialise(change.replaces)} → ${serialise(change.value)}`
+					: `${property}: add ${serialise(change.value)} as a new statement`,
+			});
+		}
+
+		if (skipped.length > 0) {
+			this.contentEl.createEl("p", {
+				text: "These values cannot be pushed and will be skipped:",
+			});
+			const skippedList = this.contentEl.createEl("ul");
+			for (const { change, reason } of skipped) {
+				skippedList.createEl("li", {
+					text: `${change.key}: ${serialise(change.value)} (${reason})`,
+				});
+			}
+		}
+	}
+}
+
+/**
+ * Push edited frontmatter values of the active note back to the Wikibase
+ * source, after the user has confirmed the list of changes.
+ */
+export async function pushToWikibase(plugin: WikidataImporterPlugin) {
+	const file = plugin.app.workspace.getActiveFile();
+	if (!file) {
+		new Notice("No active file");
+		return;
+	}
+	const entityId = getEntityIdForFile(plugin, file);
+	if (!entityId) {
+		new Notice(
+			`No Wikidata entity ID found in frontmatter key "${plugin.settings.entityIdKey}"`,
+		);
+		return;
+	}
+
+	const settings = plugin.settings;
+	const client = new WikibaseClient(
+		settings.editApiUrl || settings.wikibaseSource.apiUrl,
+		getCredentials(plugin),
+		settings.editDryRun,
+	);
+
+	const loading = new Notice("Comparing note with Wikidata...");
+	let datatypes: { [id: string]: string } = {};
+	const language =
+		settings.language
+			.split(",")
+			.map((l) => l.trim())
+			.find((l) => l && l !== "mul") ?? "en";
+	const convert = (change: PropertyChange, existing?: unknown) =>
+		toDatavalue(
+			change.value,
+			datatypes[change.propertyId],
+			language,
+			(link) => resolveLink(plugin, link, file),
+			existing,
+			settings.normalizeUnits,
+		);
+
+	const edits: PlannedEdit[] = [];
+	const skipped: SkippedChange[] = [];
+	try {
+		// Compare against current values, not a cached response.
+		const { properties, propertyIds, notFound } =
+			await Entity.getPropertiesMany([entityId], {
+				...getPropertiesOptions(
+					plugin,
+					await selectProfile(plugin, entityId),
+				),
+				cache: false,
+			});
+		if (notFound.includes(entityId)) {
+			new Notice(`Wikidata entity ${entityId} was not found`);
+			return;
+		}
+
+		const frontmatter =
+			plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+		const changes = diffProperties(
+			frontmatter,
+			properties[entityId],
+			propertyIds[entityId],
+		);
+		if (changes.length === 0) {
+			new Notice("No changes to push");
+			return;
+		}
+
+		datatypes = await client.getPropertyDatatypes(
+			Array.from(new Set(changes.map((c) => c.propertyId))),
+		);
+
+		for (const change of changes) {
+			// A value only replaces a claim if the property has exactly one;
+			// otherwise it is added alongside the existing ones.
+			const claims =
+				change.replaces === undefined
+					? []
+					: await client.getClaims(entityId, change.propertyId);
+			const claim = claims.length === 1 ? claims[0] : undefined;
+			// Convert against the claim being replaced so that its unit or
+			// calendar model is kept.
+			const datavalue = convert(change, claim?.value);
+			if (datavalue !== null) {
+				edits.push({ change, claim, datavalue });
+			} else if (
+				settings.normalizeUnits &&
+				datatypes[change.propertyId] === "quantity"
+			) {
+				skipped.push({
+					change,
+					reason: "amounts are normalized to SI units on import",
+				});
+			} else {
+				skipped.push({
+					change,
+					reason: "cannot be converted for Wikidata",
+				});
+			}
+		}
+	} catch (e) {
+		new Notice(`Error comparing note with Wikidata: ${e}`);
+		return;
+	} finally {
+		loading.hide();
+	}
+
+	if (edits.length === 0) {
+		new Notice("None of the changed values can be pushed to Wikidata");
+		return;
+	}
+
+	const confirmed = await new PushConfirmModal(
+		plugin.app,
+		edits,
+		skipped,
+		settings.editDryRun,
+	).confirm();
+	if (!confirmed) return;
+
+	try {
+		await client.login();
+		for (const { change, claim, datavalue } of edits) {
+			if (claim) {
+				await client.setClaimValue(claim.id, datavalue);
+			} else {
+				await client.createClaim(
+					entityId,
+					change.propertyId,
+					datavalue,
+				);
+			}
+		}
+	} catch (e) {
+		new Notice(`Error pushing to Wikidata: ${e}`);
+		return;
+	} finally {
+		// Cached responses no longer match the entity once edits were sent,
+		// and would be written back over them by the next import.
+		if (!settings.editDryRun && client.edits.length > 0) {
+			invalidateCachedEntity(entityId, settings.wikibaseSource);
+		}
+	}
+
+	if (settings.editDryRun) {
+		console.info(
+			"[wikidata-importer] Dry run, edits not sent:",
+			client.edits,
+		);
+		new Notice(
+			`Dry run: ${client.edits.length} edits prepared, see the console`,
+		);
+	} else {
+		new Notice(`Pushed ${client.edits.length} edits to ${entityId}`);
+	}
+}
+
+function resolveLink(
+	plugin: WikidataImporterPlugin,
+	link: string,
+	from: TFile,
+): string | null {
+	const target = plugin.app.metadataCache.getFirstLinkpathDest(
+		link,
+		from.path,
+	);
+	return target ? getEntityIdForFile(plugin, target) : null;
+}
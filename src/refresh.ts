@@ -0,0 +1,282 @@
+import { TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { importMedia } from "./media";
+import { getPropertiesWithProfiles } from "./profiles";
+import { getEntityIdForFile, writePropertiesToFile } from "./sync";
+import { applyTemplate } from "./templates";
+import {
+	describeEndpointFailures,
+	Entity,
+	EntityNotFoundError,
+} from "./wikidata";
+
+/** How often the refresh checks whether a scan is due, in milliseconds. */
+const TICK_INTERVAL = 60 * 1000;
+
+/** Number of entities whose modification date is fetched with one query. */
+const MODIFIED_BATCH_SIZE = 50;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** A fraction in [0, 1) that stays the same for a given path. */
+function spread(path: string): number {
+	let hash = 0;
+	for (let i = 0; i < path.length; i++) {
+		hash = (hash * 31 + path.charCodeAt(i)) >>> 0;
+	}
+	return hash / 2 ** 32;
+}
+
+/**
+ * Keeps imported notes up to date in the background. Every so often the vault
+ * is scanned for notes last synced longer ago than the configured age, or
+ * optionally before their entity was last modified on Wikidata, and those are
+ * re-imported one at a time with a delay in between. Progress and the last
+ * error are shown in the status bar, which also pauses and resumes the job.
+ */
+export class BackgroundRefresh {
+	private plugin: WikidataImporterPlugin;
+	/** Paths of the notes waiting to be refreshed. */
+	private queue: string[] = [];
+	private lastError: string | null = null;
+	private lastScan = 0;
+	private running = false;
+	private stopped = false;
+	private statusEl: HTMLElement | null = null;
+
+	constructor(plugin: WikidataImporterPlugin) {
+		this.plugin = plugin;
+	}
+
+	/** Start the job and its status bar item. Call once when the plugin loads. */
+	register(): void {
+		this.statusEl = this.plugin.addStatusBarItem();
+		this.statusEl.addClass("mod-clickable");
+		this.statusEl.setAttr("data-tooltip-position", "top");
+		this.statusEl.addEventListener("click", () =>
+			this.setPaused(!this.plugin.settings.refreshPaused),
+		);
+		this.updateStatus();
+
+		this.plugin.registerInterval(
+			window.setInterval(() => this.tick(), TICK_INTERVAL),
+		);
+		this.plugin.app.workspace.onLayoutReady(() => this.tick());
+	}
+
+	/**
+	 * Stop for good, e.g. when the plugin is unloaded. A note being refreshed
+	 * is finished, but no further notes are.
+	 */
+	stop(): void {
+		this.stopped = true;
+		this.queue = [];
+	}
+
+	get paused(): boolean {
+		return this.plugin.settings.refreshPaused;
+	}
+
+	async setPaused(paused: boolean) {
+		this.plugin.settings.refreshPaused = paused;
+		await this.plugin.saveSettings();
+		this.updateStatus();
+		if (!paused) this.tick();
+	}
+
+	/** Show the current state in the status bar, e.g. after a settings change. */
+	updateStatus(): void {
+		if (!this.statusEl) return;
+		const { settings } = this.plugin;
+		this.statusEl.toggle(settings.refreshEnabled);
+
+		let text = this.paused
+			? `Wikidata: paused, ${this.queue.length} to refresh`
+			: this.queue.length > 0
+				? `Wikidata: ${this.queue.length} to refresh`
+				: "Wikidata: up to date";
+		if (this.lastError) text += " (error)";
+		this.statusEl.setText(text);
+
+		const tooltip = [
+			this.paused
+				? "Click to resume background refresh"
+				: "Click to pause background refresh",
+		];
+		if (this.lastError) tooltip.push(`Last error: ${this.lastError}`);
+		this.statusEl.setAttr("aria-label", tooltip.join("\n"));
+	}
+
+	private async tick() {
+		const { settings } = this.plugin;
+		if (!settings.refreshEnabled || this.paused || this.stopped) return;
+
+		const interval = settings.refreshIntervalMinutes * 60 * 1000;
+		if (!this.running && Date.now() - this.lastScan >= interval) {
+			this.lastScan = Date.now();
+			try {
+				await this.scan();
+			} catch (e) {
+				this.fail("Checking for stale notes failed", e);
+			}
+		}
+		await this.run();
+	}
+
+	/** When a note was last synced, or null if it does not say. */
+	private lastSynced(file: TFile): number | null {
+		const key = this.plugin.settings.lastSyncedKey;
+		const value =
+			key &&
+			this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				key
+			];
+		const time = typeof value === "string" ? Date.parse(value) : Number.NaN;
+		return Number.isNaN(time) ? null : time;
+	}
+
+	/**
+	 * Queue the notes that are due for a refresh. Notes without a timestamp,
+	 * which is every note when refresh has just been turned on, do not all
+	 * fall due at once: each is given a fixed point within the maximum age
+	 * after refresh was turned on.
+	 */
+	private async scan() {
+		const { settings } = this.plugin;
+		// Without a timestamp every note would always be due.
+		if (!settings.lastSyncedKey) return;
+
+		const now = Date.now();
+		const maxAge = settings.refreshMaxAgeDays * DAY;
+		if (!settings.refreshStartedAt) {
+			settings.refreshStartedAt = now;
+			await this.plugin.saveSettings();
+		}
+		const due: string[] = [];
+		const recent: { path: string; entityId: string; synced: number }[] = [];
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			const entityId = getEntityIdForFile(this.plugin, file);
+			if (!entityId) continue;
+
+			const synced = this.lastSynced(file);
+			if (synced === null) {
+				const dueAt =
+					settings.refreshStartedAt + spread(file.path) * maxAge;
+				if (now >= dueAt) due.push(file.path);
+			} else if (now - synced > maxAge) {
+				due.push(file.path);
+			} else {
+				recent.push({ path: file.path, entityId, synced });
+			}
+		}
+
+		if (settings.refreshWhenModified) {
+			for (let i = 0; i < recent.length; i += MODIFIED_BATCH_SIZE) {
+				const batch = recent.slice(i, i + MODIFIED_BATCH_SIZE);
+				const modified = await Entity.getModifiedMany(
+					batch.map((note) => note.entityId),
+					{
+						endpoints: settings.sparqlEndpoints,
+						source: settings.wikibaseSource,
+					},
+				);
+				for (const note of batch) {
+					const time = Date.parse(modified[note.entityId] ?? "");
+					if (time > note.synced) due.push(note.path);
+				}
+			}
+		}
+
+		for (const path of due) {
+			if (!this.queue.includes(path)) this.queue.push(path);
+		}
+		this.updateStatus();
+	}
+
+	/** Work through the queue until it is empty or the job is stopped. */
+	private async run() {
+		if (this.running) return;
+		this.running = true;
+		try {
+			while (
+				this.queue.length > 0 &&
+				this.plugin.settings.refreshEnabled &&
+				!this.paused &&
+				!this.stopped
+			) {
+				const path = this.queue[0];
+				try {
+					// Only errors since the last successful refresh are shown.
+					this.lastError = null;
+					await this.refresh(path);
+				} catch (e) {
+					this.fail(`Refreshing "${path}" failed`, e);
+				}
+				this.queue.shift();
+				this.updateStatus();
+				await new Promise((resolve) =>
+					window.setTimeout(
+						resolve,
+						this.plugin.settings.refreshDelaySeconds * 1000,
+					),
+				);
+			}
+		} finally {
+			this.running = false;
+			this.updateStatus();
+		}
+	}
+
+	private async refresh(path: string) {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		const entityId =
+			file instanceof TFile
+				? getEntityIdForFile(this.plugin, file)
+				: null;
+		if (!(file instanceof TFile) || !entityId) return;
+
+		// Notes queued because their entity was edited must not be refreshed
+		// from a cached response that predates the edit.
+		const { result, profiles } = await getPropertiesWithProfiles(
+			this.plugin,
+			[entityId],
+			false,
+		);
+		const failures = describeEndpointFailures(result.diagnostics);
+		if (failures) this.fail(`Refreshing "${path}"`, failures);
+		const properties = result.properties[entityId];
+		if (!properties) throw new EntityNotFoundError(entityId);
+
+		await writePropertiesToFile(
+			this.plugin,
+			entityId,
+			file,
+			properties,
+			result.propertyIds[entityId],
+			profiles[entityId],
+		);
+		await applyTemplate(
+			this.plugin,
+			entityId,
+			file,
+			profiles[entityId],
+			properties,
+			result.propertyIds[entityId],
+			false,
+		);
+		await importMedia(
+			this.plugin,
+			entityId,
+			file,
+			properties,
+			result.propertyIds[entityId],
+		);
+	}
+
+	private fail(message: string, e: unknown) {
+		console.warn(`[wikidata-importer] ${message}:`, e);
+		this.lastError = `${message}: ${e instanceof Error ? e.message : e}`;
+		this.updateStatus();
+	}
+}
@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	configureRequests,
+	DEFAULT_REQUEST_OPTIONS,
+	MalformedResponseError,
+	parseRetryAfter,
+	RateLimitedError,
+	RequestCancelledError,
+	RequestError,
+	RequestTimeoutError,
+	request,
+	requestJson,
+} from "./request";
+
+/** A server whose behaviour is chosen by path, counting requests per path. */
+function standInServer() {
+	const counts: { [path: string]: number } = {};
+	const userAgents: string[] = [];
+	let active = 0;
+	let maxActive = 0;
+
+	const server = Bun.serve({
+		port: 0,
+		async fetch(req) {
+			const path = new URL(req.url).pathname;
+			counts[path] = (counts[path] ?? 0) + 1;
+			userAgents.push(req.headers.get("user-agent") ?? "");
+
+			switch (path) {
+				case "/flaky":
+					return counts[path] < 3
+						? new Response("slow down", {
+								status: 429,
+								headers: { "Retry-After": "0" },
+							})
+						: Response.json({ ok: true });
+				case "/limited":
+					return new Response("slow down", {
+						status: 429,
+						headers: { "Retry-After": "0" },
+					});
+				case "/missing":
+					return new Response("not found", { status: 404 });
+				case "/slow":
+					await Bun.sleep(200);
+					return Response.json({ ok: true });
+				case "/html":
+					return new Response("<html></html>");
+				case "/busy":
+				case "/stuck":
+					active++;
+					maxActive = Math.max(maxActive, active);
+					await Bun.sleep(path === "/busy" ? 20 : 200);
+					active--;
+					return Response.json({ ok: true });
+			}
+			return Response.json({ ok: true });
+		},
+	});
+
+	return {
+		url: (path: string) => `http://localhost:${server.port}${path}`,
+		counts,
+		userAgents,
+		maxActive: () => maxActive,
+		stop: () => server.stop(true),
+	};
+}
+
+describe("request", () => {
+	const server = standInServer();
+
+	beforeAll(() =>
+		configureRequests({
+			userAgent: "Test/1.0",
+			maxRetries: 3,
+			retryDelay: 1,
+			timeout: 100,
+			concurrency: 2,
+		}),
+	);
+	afterAll(() => {
+		configureRequests(DEFAULT_REQUEST_OPTIONS);
+		server.stop();
+	});
+
+	test("retries rate-limited requests and sends the User-Agent", async () => {
+		expect(await requestJson(server.url("/flaky"))).toEqual({ ok: true });
+		expect(server.counts["/flaky"]).toBe(3);
+		expect(server.userAgents).toContain("Test/1.0");
+	});
+
+	test("gives up with typed errors", async () => {
+		await expect(request(server.url("/limited"), 1)).rejects.toThrow(
+			RateLimitedError,
+		);
+		expect(server.counts["/limited"]).toBe(2);
+
+		await expect(request(server.url("/missing"))).rejects.toThrow(
+			RequestError,
+		);
+		expect(server.counts["/missing"]).toBe(1);
+
+		await expect(request(server.url("/slow"), 0)).rejects.toThrow(
+			RequestTimeoutError,
+		);
+		await expect(requestJson(server.url("/html"))).rejects.toThrow(
+			MalformedResponseError,
+		);
+	});
+
+	test("cancels requests", async () => {
+		const controller = new AbortController();
+		const slow = request(server.url("/slow"), 0, controller.signal);
+		controller.abort();
+		await expect(slow).rejects.toThrow(RequestCancelledError);
+
+		const before = server.counts["/flaky"];
+		await expect(
+			request(server.url("/flaky"), 0, controller.signal),
+		).rejects.toThrow(RequestCancelledError);
+		expect(server.counts["/flaky"]).toBe(before);
+	});
+
+	test("limits the requests in flight per endpoint", async () => {
+		await Promise.all(
+			Array.from({ length: 6 }, () => request(server.url("/busy"))),
+		);
+		expect(server.maxActive()).toBe(2);
+	});
+
+	test("keeps the slot of a timed-out request until it finishes", async () => {
+		const results = await Promise.allSettled(
+			Array.from({ length: 4 }, () => request(server.url("/stuck"), 0)),
+		);
+		expect(results.every((r) => r.status === "rejected")).toBe(true);
+		expect(server.maxActive()).toBe(2);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	test("accepts seconds and HTTP dates", () => {
+		expect(parseRetryAfter("120")).toBe(120);
+		expect(
+			parseRetryAfter(
+				"Wed, 21 Oct 2015 07:28:30 GMT",
+				Date.parse("Wed, 21 Oct 2015 07:28:00 GMT"),
+			),
+		).toBe(30);
+		expect(parseRetryAfter("soon")).toBeNull();
+		expect(parseRetryAfter(null)).toBeNull();
+	});
+});
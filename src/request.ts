@@ -0,0 +1,312 @@
+import {
+	type RequestUrlParam,
+	type RequestUrlResponse,
+	requestUrl,
+} from "obsidian";
+
+export interface RequestOptions {
+	/** Sent with every request, as the Wikimedia User-Agent policy asks. */
+	userAgent: string;
+	/** How often a failed request is retried. */
+	maxRetries: number;
+	/** Delay before the first retry, doubled for every further one, in
+	 *  milliseconds. */
+	retryDelay: number;
+	/** Longest delay between retries, including delays asked for with
+	 *  Retry-After, in milliseconds. */
+	maxRetryDelay: number;
+	/** How long to wait for a response, in milliseconds. */
+	timeout: number;
+	/** Maximum number of requests in flight per endpoint. */
+	concurrency: number;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+	userAgent:
+		"WikidataImporter (https://github.com/samwho/obsidian-wikidata-importer)",
+	maxRetries: 3,
+	retryDelay: 1000,
+	maxRetryDelay: 60 * 1000,
+	timeout: 60 * 1000,
+	concurrency: 2,
+};
+
+/** Status codes worth retrying: rate limiting and transient server errors. */
+const RETRY_STATUSES = [429, 500, 502, 503, 504];
+
+let requestOptions: RequestOptions = { ...DEFAULT_REQUEST_OPTIONS };
+
+/** Change how requests are made, e.g. to add the plugin version to the
+ *  User-Agent. Options not given are left as they are. */
+export function configureRequests(options: Partial<RequestOptions>) {
+	requestOptions = { ...requestOptions, ...options };
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** A request that failed, with a message fit to show to the user. */
+export class RequestError extends Error {
+	url: string;
+	/** HTTP status, if the server answered. */
+	status?: number;
+
+	constructor(message: string, url: string, status?: number) {
+		super(message);
+		this.name = "RequestError";
+		this.url = url;
+		this.status = status;
+	}
+}
+
+export class RequestTimeoutError extends RequestError {
+	constructor(url: string, timeout: number) {
+		super(
+			`${endpointName(url)} did not answer within ${Math.round(timeout / 1000)} seconds. The query may be too heavy; try again later or use another endpoint.`,
+			url,
+		);
+		this.name = "RequestTimeoutError";
+	}
+}
+
+export class RateLimitedError extends RequestError {
+	/** Seconds the server asked to wait, if it said. */
+	retryAfter: number | null;
+
+	constructor(url: string, retryAfter: number | null) {
+		super(
+			retryAfter === null
+				? `${endpointName(url)} is limiting requests. Try again later.`
+				: `${endpointName(url)} is limiting requests. Try again in ${Math.ceil(retryAfter)} seconds.`,
+			url,
+			429,
+		);
+		this.name = "RateLimitedError";
+		this.retryAfter = retryAfter;
+	}
+}
+
+export class RequestCancelledError extends RequestError {
+	constructor(url: string) {
+		super(`The request to ${endpointName(url)} was cancelled`, url);
+		this.name = "RequestCancelledError";
+	}
+}
+
+export class MalformedResponseError extends RequestError {
+	constructor(url: string, detail: string) {
+		super(
+			`${endpointName(url)} sent a response that could not be read: ${detail}`,
+			url,
+		);
+		this.name = "MalformedResponseError";
+	}
+}
+
+function endpointName(url: string): string {
+	try {
+		return new URL(url).host;
+	} catch {
+		return url;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Concurrency limits
+// ---------------------------------------------------------------------------
+
+/** Requests in flight and waiting, by endpoint. */
+const slots = new Map<string, { active: number; waiting: (() => void)[] }>();
+
+/** Requests to the same host and path count against the same limit. */
+function endpointKey(url: string): string {
+	try {
+		const { origin, pathname } = new URL(url);
+		return origin + pathname;
+	} catch {
+		return url;
+	}
+}
+
+async function acquire(key: string): Promise<void> {
+	const slot = slots.get(key) ?? { active: 0, waiting: [] };
+	slots.set(key, slot);
+	if (slot.active >= Math.max(1, requestOptions.concurrency)) {
+		await new Promise<void>((resolve) => slot.waiting.push(resolve));
+	}
+	slot.active++;
+}
+
+function release(key: string) {
+	const slot = slots.get(key);
+	if (!slot) return;
+	slot.active--;
+	const next = slot.waiting.shift();
+	if (next) next();
+	else if (slot.active === 0) slots.delete(key);
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+function header(response: RequestUrlResponse, name: string): string | null {
+	for (const [key, value] of Object.entries(response.headers ?? {})) {
+		if (key.toLowerCase() === name) return value;
+	}
+	return null;
+}
+
+/** The delay a Retry-After header asks for, in seconds. */
+export function parseRetryAfter(
+	value: string | null,
+	now = Date.now(),
+): number | null {
+	if (!value) return null;
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, (date - now) / 1000);
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send a request, giving up on it after `timeout` or when `signal` aborts.
+ * `settled` is called once the request itself has finished, which may be
+ * after this has given up on it.
+ */
+async function attempt(
+	param: RequestUrlParam,
+	timeout: number,
+	settled: () => void,
+	signal?: AbortSignal,
+): Promise<RequestUrlResponse> {
+	const pending = Promise.resolve().then(() =>
+		requestUrl({ ...param, throw: false }),
+	);
+	pending.then(settled, settled);
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let onAbort: (() => void) | undefined;
+	try {
+		return await Promise.race([
+			pending,
+			new Promise<never>((_, reject) => {
+				timer = setTimeout(
+					() => reject(new RequestTimeoutError(param.url, timeout)),
+					timeout,
+				);
+				// requestUrl cannot be aborted; its response is ignored.
+				onAbort = () => reject(new RequestCancelledError(param.url));
+				signal?.addEventListener("abort", onAbort);
+			}),
+		]);
+	} finally {
+		clearTimeout(timer);
+		if (onAbort) signal?.removeEventListener("abort", onAbort);
+	}
+}
+
+/**
+ * Make an HTTP request with the plugin's User-Agent, at most the configured
+ * number of requests in flight per endpoint, and retries with exponential
+ * backoff on timeouts, network errors, rate limiting and server errors. A
+ * Retry-After header is honoured. Errors are thrown as RequestError and its
+ * subclasses.
+ *
+ * @param maxRetries  Overrides the configured number of retries, e.g. 0 for
+ *                    requests that must not be repeated.
+ * @param signal      Cancels the request, rejecting with
+ *                    RequestCancelledError. A request still waiting for a
+ *                    slot or a retry is never sent.
+ */
+export async function request(
+	param: RequestUrlParam | string,
+	maxRetries = requestOptions.maxRetries,
+	signal?: AbortSignal,
+): Promise<RequestUrlResponse> {
+	const options = requestOptions;
+	const base = typeof param === "string" ? { url: param } : param;
+	const full: RequestUrlParam = {
+		...base,
+		headers: { "User-Agent": options.userAgent, ...base.headers },
+	};
+	const key = endpointKey(full.url);
+
+	for (let retry = 0; ; retry++) {
+		let error: unknown;
+		let wait = Math.min(
+			options.retryDelay * 2 ** retry,
+			options.maxRetryDelay,
+		);
+
+		// A request given up on keeps its slot until it actually finishes, so
+		// that timeouts do not let more requests pile up on the endpoint.
+		await acquire(key);
+		let sent = false;
+		try {
+			if (signal?.aborted) throw new RequestCancelledError(full.url);
+			sent = true;
+			const response = await attempt(
+				full,
+				options.timeout,
+				() => release(key),
+				signal,
+			);
+			if (response.status < 400) return response;
+
+			if (response.status === 429) {
+				const retryAfter = parseRetryAfter(
+					header(response, "retry-after"),
+				);
+				error = new RateLimitedError(full.url, retryAfter);
+				if (retryAfter !== null) wait = retryAfter * 1000;
+			} else {
+				error = new RequestError(
+					`${endpointName(full.url)} answered with HTTP ${response.status}`,
+					full.url,
+					response.status,
+				);
+			}
+			if (!RETRY_STATUSES.includes(response.status)) throw error;
+		} catch (e) {
+			if (e === error || e instanceof RequestCancelledError) throw e;
+			// Timeouts and network errors.
+			error = e;
+		} finally {
+			if (!sent) release(key);
+		}
+
+		if (retry >= maxRetries || wait > options.maxRetryDelay) throw error;
+		console.warn(
+			`[wikidata-importer] Request to ${endpointName(full.url)} failed, retrying in ${Math.round(wait / 1000)}s:`,
+			error,
+		);
+		await delay(wait);
+		if (signal?.aborted) throw new RequestCancelledError(full.url);
+	}
+}
+
+/**
+ * Make a request with `request` and return its JSON body, throwing
+ * MalformedResponseError if it is not JSON.
+ */
+export async function requestJson(
+	param: RequestUrlParam | string,
+	maxRetries?: number,
+	signal?: AbortSignal,
+): Promise<unknown> {
+	const response = await request(param, maxRetries, signal);
+	try {
+		return response.json as unknown;
+	} catch (e) {
+		throw new MalformedResponseError(
+			typeof param === "string" ? param : param.url,
+			e instanceof Error ? e.message : String(e),
+		);
+	}
+}
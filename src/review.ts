@@ -0,0 +1,50 @@
+import { type App, Setting, type TFile } from "obsidian";
+
+import { ConfirmModal } from "./confirm-modal";
+import type { ChangeKind, ImportChange } from "./snapshots";
+import { serialise } from "./wikibase";
+
+const KIND_DESCRIPTIONS: { [kind in ChangeKind]: string } = {
+	added: "New",
+	updated: "Changed on Wikidata",
+	edited: "Edited in the note",
+	conflict: "Changed in the note and on Wikidata",
+};
+
+/**
+ * Lists the changes a re-import would make to a note, each with a toggle to
+ * accept or reject it.
+ */
+class ImportReviewModal extends ConfirmModal {
+	constructor(app: App, file: TFile, changes: ImportChange[]) {
+		super(app, `Review changes to ${file.basename}`, "Apply");
+
+		for (const change of changes) {
+			new Setting(this.contentEl)
+				.setName(change.key)
+				.setDesc(
+					change.kind === "added"
+						? `${KIND_DESCRIPTIONS[change.kind]}: ${serialise(change.value)}`
+						: `${KIND_DESCRIPTIONS[change.kind]}: ${serialise(change.current)} → ${serialise(change.value)}`,
+				)
+				.addToggle((toggle) =>
+					toggle.setValue(change.accept).onChange((value) => {
+						change.accept = value;
+					}),
+				);
+		}
+	}
+}
+
+/**
+ * Let the user pick which of a re-import's changes to apply. Resolves to the
+ * accepted changes, or null if the import was cancelled.
+ */
+export async function reviewChanges(
+	app: App,
+	file: TFile,
+	changes: ImportChange[],
+): Promise<ImportChange[] | null> {
+	const confirmed = await new ImportReviewModal(app, file, changes).confirm();
+	return confirmed ? changes.filter((change) => change.accept) : null;
+}
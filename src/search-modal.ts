@@ -0,0 +1,418 @@
+import { Notice, SuggestModal, TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { commonsThumbnailUrl } from "./media";
+import { newNotePath, selectProfile } from "./profiles";
+import { RequestCancelledError } from "./request";
+import { displayValue, parseSearchQuery } from "./search";
+import {
+	filterProperties,
+	getPropertiesOptions,
+	syncEntityToFile,
+} from "./sync";
+import {
+	type BatchProperties,
+	Entity,
+	parseEntityReference,
+	type SearchDetails,
+	type SearchPage,
+} from "./wikidata";
+
+/** The entry at the end of the results that loads the next page. */
+interface LoadMore {
+	loadMore: true;
+}
+
+type Suggestion = Entity | LoadMore;
+
+/** Width of the thumbnails next to results and in the preview, in pixels. */
+const THUMBNAIL_WIDTH = 64;
+const PREVIEW_IMAGE_WIDTH = 320;
+
+/** Number of properties shown in the preview. */
+const PREVIEW_PROPERTIES = 12;
+
+/** How long a result must stay selected before it is previewed, in
+ *  milliseconds, so that scrolling through results does not fetch them all. */
+const PREVIEW_DELAY = 300;
+
+/** How long typing must pause before a search is made, in milliseconds. */
+const SEARCH_DELAY = 250;
+
+/** What the letter an entity ID starts with says about the entity. */
+const ENTITY_KINDS: { [prefix: string]: string } = {
+	P: "property",
+	L: "lexeme",
+	M: "file",
+};
+
+/**
+ * Searches the configured Wikibase source and imports the chosen entity.
+ * Results show their ID, what they are an instance of and their image, and
+ * the selected one is previewed beside the list. A prefix restricts the
+ * search: `property:` and `lexeme:` search those entity types, and a type
+ * filter such as `book:` (see the search type filters setting) or a class ID
+ * such as `Q571:` only finds instances of that class. Entity and Wikipedia
+ * URLs and external identifiers such as ISBNs find the entity they refer to.
+ */
+export class WikidataEntitySuggestModal extends SuggestModal<Suggestion> {
+	plugin: WikidataImporterPlugin;
+	activeFile?: TFile;
+	/** The search the results are for, or null before the first one. */
+	private query: string | null = null;
+	private results: Entity[] = [];
+	private next: number | null = null;
+	/** Counts calls to getSuggestions, so that outdated ones can tell. */
+	private generation = 0;
+	/** Cancels the search in flight. */
+	private controller: AbortController | null = null;
+	private details = new Map<string, Promise<SearchDetails | null>>();
+	private rendered = new WeakMap<Element, Entity>();
+	private previewEl: HTMLElement;
+	private previewId: string | null = null;
+	private previewTimer: number | undefined;
+	private observer: MutationObserver;
+
+	constructor(plugin: WikidataImporterPlugin, activeFile?: TFile) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.activeFile = activeFile;
+		this.setPlaceholder("Search for a Wikidata entity");
+		this.setInstructions([
+			{ command: "book: dune", purpose: "to filter by type" },
+			{ command: "property: / lexeme:", purpose: "to search those" },
+		]);
+
+		this.modalEl.addClass("wikidata-importer-search");
+		const body = createDiv({ cls: "wikidata-importer-search-body" });
+		this.resultContainerEl.replaceWith(body);
+		body.appendChild(this.resultContainerEl);
+		this.previewEl = body.createDiv({
+			cls: "wikidata-importer-search-preview",
+		});
+		this.previewEl.toggle(plugin.settings.searchPreview);
+
+		// The selection moves with both the mouse and the arrow keys, and is
+		// only visible as the class of the selected result.
+		this.observer = new MutationObserver(() => this.onSelectionChange());
+	}
+
+	onOpen() {
+		super.onOpen();
+		this.observer.observe(this.resultContainerEl, {
+			attributes: true,
+			attributeFilter: ["class"],
+			subtree: true,
+		});
+	}
+
+	onClose() {
+		super.onClose();
+		this.observer.disconnect();
+		this.controller?.abort();
+		window.clearTimeout(this.previewTimer);
+	}
+
+	/**
+	 * Search once typing pauses, cancelling the search still in flight for
+	 * what was typed before. Calls overtaken by newer ones return the current
+	 * results, so that a late response never replaces newer results.
+	 */
+	async getSuggestions(query: string): Promise<Suggestion[]> {
+		const generation = ++this.generation;
+		this.controller?.abort();
+		this.controller = null;
+		if (query === this.query) return this.suggestions();
+
+		await new Promise((resolve) =>
+			window.setTimeout(resolve, SEARCH_DELAY),
+		);
+		if (generation !== this.generation) return this.suggestions();
+
+		const controller = new AbortController();
+		this.controller = controller;
+		const page = await this.search(query, 0, controller.signal);
+		if (generation !== this.generation) return this.suggestions();
+		if (!page) return [];
+		this.query = query;
+		this.results = page.results;
+		this.next = page.next;
+		return this.suggestions();
+	}
+
+	private suggestions(): Suggestion[] {
+		return this.next === null
+			? this.results
+			: [...this.results, { loadMore: true }];
+	}
+
+	/**
+	 * Fetch a page of results and start fetching their details. Returns null
+	 * if the search was cancelled or failed, having told the user if it failed.
+	 */
+	private async search(
+		query: string,
+		offset: number,
+		signal?: AbortSignal,
+	): Promise<SearchPage | null> {
+		const { settings } = this.plugin;
+		const source = settings.wikibaseSource;
+		if (offset === 0 && parseEntityReference(query, source)) {
+			// An entity URL, Wikipedia URL or external identifier.
+			try {
+				const entity = await Entity.findByReference(query, {
+					language: settings.language,
+					source,
+					signal,
+				});
+				if (entity) {
+					this.loadDetails([entity]);
+					return { results: [entity], next: null };
+				}
+			} catch (e) {
+				if (e instanceof RequestCancelledError) return null;
+				console.warn(
+					`[wikidata-importer] Failed to look up "${query}":`,
+					e,
+				);
+			}
+		}
+		const parsed =
+			source.entityType === "mediainfo"
+				? { text: query.trim() }
+				: parseSearchQuery(query, settings.searchTypeFilters);
+		try {
+			const page = await Entity.searchPage(parsed.text, {
+				...parsed,
+				language: settings.language,
+				source,
+				offset,
+				signal,
+			});
+			this.loadDetails(page.results);
+			return page;
+		} catch (e) {
+			if (e instanceof RequestCancelledError) return null;
+			new Notice(`Search failed: ${e instanceof Error ? e.message : e}`);
+			return null;
+		}
+	}
+
+	private loadDetails(entities: Entity[]) {
+		const ids = entities
+			.map((entity) => entity.id)
+			.filter((id) => id.startsWith("Q") && !this.details.has(id));
+		if (ids.length === 0) return;
+
+		const { settings } = this.plugin;
+		const details = Entity.getSearchDetails(ids, {
+			endpoints: settings.sparqlEndpoints,
+			source: settings.wikibaseSource,
+			language: settings.language,
+		}).catch((e) => {
+			console.warn(
+				"[wikidata-importer] Failed to load search result details:",
+				e,
+			);
+			return {} as { [id: string]: SearchDetails };
+		});
+		for (const id of ids) {
+			this.details.set(
+				id,
+				details.then((found) => found[id] ?? null),
+			);
+		}
+	}
+
+	private async loadMore() {
+		const query = this.query;
+		if (query === null || this.next === null) return;
+		// Typing cancels this like any other search.
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		const page = await this.search(query, this.next, controller.signal);
+		if (!page || query !== this.query) return;
+
+		// Pages overlap when the languages searched found different numbers
+		// of results.
+		const seen = new Set(this.results.map((entity) => entity.id));
+		this.results.push(...page.results.filter((e) => !seen.has(e.id)));
+		this.next = page.next;
+		// Have the list rendered again.
+		this.inputEl.dispatchEvent(new Event("input"));
+	}
+
+	selectSuggestion(value: Suggestion, evt: MouseEvent | KeyboardEvent) {
+		if (value instanceof Entity) {
+			super.selectSuggestion(value, evt);
+		} else {
+			this.loadMore();
+		}
+	}
+
+	async onChooseSuggestion(
+		item: Suggestion,
+		_evt: MouseEvent | KeyboardEvent,
+	) {
+		if (!(item instanceof Entity)) return;
+		const loading = new Notice(`Importing entity ${item.id}...`);
+
+		let result: BatchProperties | null;
+		try {
+			if (this.plugin.settings.internalLinkPrefix === "db/") {
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: this is intentional
+				this.plugin.settings.internalLinkPrefix = "db/${label}";
+			}
+
+			const profile = await selectProfile(this.plugin, item.id);
+			const name = newNotePath(this.plugin, item, profile);
+
+			let created = false;
+			let file =
+				this.activeFile || this.app.vault.getAbstractFileByPath(name);
+			if (!(file instanceof TFile)) {
+				const folder = name.substring(0, name.lastIndexOf("/"));
+				if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+					await this.app.vault.createFolder(folder);
+				}
+				file = await this.app.vault.create(name, "");
+				created = true;
+			}
+			result = await syncEntityToFile(
+				this.plugin,
+				item,
+				file as TFile,
+				profile,
+				created,
+			);
+			const leaf = this.app.workspace.getMostRecentLeaf();
+			if (leaf) {
+				leaf.openFile(file as TFile);
+			}
+		} catch (e) {
+			new Notice(`Error importing entity ${item.id}: ${e}`);
+			return;
+		} finally {
+			loading.hide();
+		}
+		if (result) await this.plugin.importLinkedEntities(item.id, result);
+	}
+
+	renderSuggestion(item: Suggestion, el: HTMLElement): void {
+		if (!(item instanceof Entity)) {
+			el.createEl("div", { text: "Load more results" });
+			return;
+		}
+		this.rendered.set(el, item);
+
+		el.addClass("wikidata-importer-suggestion");
+		const thumbnail = el.createDiv({
+			cls: "wikidata-importer-suggestion-thumbnail",
+		});
+		const text = el.createDiv();
+		const title = text.createDiv();
+		title.createSpan({ text: item.label ?? item.id });
+		title.createEl("small", {
+			text: ` ${item.id}`,
+			cls: "wikidata-importer-suggestion-id",
+		});
+		const kind = text.createEl("small", {
+			text: ENTITY_KINDS[item.id[0]],
+			cls: "wikidata-importer-suggestion-type",
+		});
+		text.createEl("div").createEl("small", { text: item.description });
+
+		this.details.get(item.id)?.then((details) => {
+			if (!details) return;
+			kind.setText(details.types.join(", "));
+			if (details.image) {
+				thumbnail.createEl("img", {
+					attr: {
+						src: commonsThumbnailUrl(
+							details.image,
+							THUMBNAIL_WIDTH,
+						),
+						loading: "lazy",
+					},
+				});
+			}
+		});
+	}
+
+	private onSelectionChange() {
+		if (!this.plugin.settings.searchPreview) return;
+		const selected = this.resultContainerEl.querySelector(".is-selected");
+		const entity = selected ? this.rendered.get(selected) : undefined;
+		if (!entity || entity.id === this.previewId) return;
+
+		this.previewId = entity.id;
+		window.clearTimeout(this.previewTimer);
+		this.previewTimer = window.setTimeout(
+			() => this.showPreview(entity),
+			PREVIEW_DELAY,
+		);
+	}
+
+	/** Show the entity and its first properties in the preview pane. */
+	private async showPreview(entity: Entity) {
+		const el = this.previewEl;
+		el.empty();
+		el.createEl("h3", { text: entity.label ?? entity.id });
+		el.createEl("small", { text: entity.id });
+		if (entity.description) el.createEl("p", { text: entity.description });
+		const imageEl = el.createDiv();
+		const listEl = el.createDiv({ text: "Loading properties..." });
+
+		const details = await this.details.get(entity.id);
+		if (this.previewId !== entity.id) return;
+		if (details?.image) {
+			imageEl.createEl("img", {
+				attr: {
+					src: commonsThumbnailUrl(
+						details.image,
+						PREVIEW_IMAGE_WIDTH,
+					),
+				},
+			});
+		}
+
+		let properties: { [key: string]: string[] };
+		try {
+			const result = await Entity.getPropertiesMany(
+				[entity.id],
+				getPropertiesOptions(this.plugin),
+			);
+			properties = Object.fromEntries(
+				Object.entries(
+					filterProperties(
+						this.plugin,
+						result.properties[entity.id] ?? {},
+						result.propertyIds[entity.id],
+					),
+				).map(([key, values]) => [key, values.map(displayValue)]),
+			);
+		} catch (e) {
+			if (this.previewId === entity.id) {
+				listEl.setText(
+					`Failed to load properties: ${e instanceof Error ? e.message : e}`,
+				);
+			}
+			return;
+		}
+		if (this.previewId !== entity.id) return;
+
+		listEl.empty();
+		const keys = Object.keys(properties);
+		for (const key of keys.slice(0, PREVIEW_PROPERTIES)) {
+			const row = listEl.createDiv();
+			row.createEl("strong", { text: `${key}: ` });
+			row.createSpan({ text: properties[key].join(", ") });
+		}
+		if (keys.length > PREVIEW_PROPERTIES) {
+			listEl.createEl("small", {
+				text: `and ${keys.length - PREVIEW_PROPERTIES} more`,
+			});
+		}
+	}
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import {
+	displayValue,
+	parseSearchQuery,
+	parseSearchTypeFilters,
+} from "./search";
+
+const FILTERS = { book: "Q7725634", "human settlement": "Q486972" };
+
+describe("parseSearchQuery", () => {
+	test("leaves searches without a prefix alone", () => {
+		expect(parseSearchQuery(" dune ", FILTERS)).toEqual({ text: "dune" });
+	});
+
+	test("filters by a configured type", () => {
+		expect(parseSearchQuery("Book: dune", FILTERS)).toEqual({
+			text: "dune",
+			instanceOf: "Q7725634",
+		});
+		expect(parseSearchQuery("human settlement:paris", FILTERS)).toEqual({
+			text: "paris",
+			instanceOf: "Q486972",
+		});
+	});
+
+	test("filters by a class ID", () => {
+		expect(parseSearchQuery("q5: douglas adams", FILTERS)).toEqual({
+			text: "douglas adams",
+			instanceOf: "Q5",
+		});
+	});
+
+	test("switches the entity type", () => {
+		expect(parseSearchQuery("property: date of birth", FILTERS)).toEqual({
+			text: "date of birth",
+			type: "property",
+		});
+		expect(parseSearchQuery("lexeme: dune", FILTERS)).toEqual({
+			text: "dune",
+			type: "lexeme",
+		});
+	});
+
+	test("keeps colons that are not a known prefix", () => {
+		expect(parseSearchQuery("Star Wars: A New Hope", FILTERS)).toEqual({
+			text: "Star Wars: A New Hope",
+		});
+	});
+});
+
+describe("parseSearchTypeFilters", () => {
+	test("reads one filter per line and skips invalid ones", () => {
+		expect(
+			parseSearchTypeFilters(
+				"Book: q7725634\nhuman settlement = Q486972\nfilm\nperson: P31",
+			),
+		).toEqual(FILTERS);
+	});
+});
+
+describe("displayValue", () => {
+	test("shows links as their text", () => {
+		expect(displayValue("[[db/Douglas Adams]]")).toBe("Douglas Adams");
+		expect(displayValue("[[db/Q42|Douglas Adams]]")).toBe("Douglas Adams");
+	});
+
+	test("drops qualifiers", () => {
+		expect(displayValue({ value: 1952, "end time": "2001" })).toBe("1952");
+		expect(displayValue(42)).toBe("42");
+	});
+});
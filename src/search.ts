@@ -0,0 +1,76 @@
+import type { Value, WikibaseEntityType } from "./wikidata";
+
+/** A search typed into the search modal, with its prefix taken apart. */
+export interface ParsedSearch {
+	/** What to search for. */
+	text: string;
+	/** Entity type asked for with `property:`, `lexeme:` or `item:`. */
+	type?: WikibaseEntityType;
+	/** Class asked for with a type filter such as `book:` or `Q571:`. */
+	instanceOf?: string;
+}
+
+const ENTITY_TYPE_PREFIXES: WikibaseEntityType[] = [
+	"item",
+	"property",
+	"lexeme",
+];
+
+/**
+ * Split a prefix such as `book: dune` off a search. The prefix may name an
+ * entity type, one of the configured type filters or a class ID. Anything
+ * else before a colon, as in `Star Wars: A New Hope`, is part of the search.
+ *
+ * @param filters  Class IDs keyed by lower-case filter name.
+ */
+export function parseSearchQuery(
+	query: string,
+	filters: { [name: string]: string },
+): ParsedSearch {
+	const match = query.match(/^\s*([^:]+?)\s*:\s*(.*)$/);
+	if (!match) return { text: query.trim() };
+
+	const prefix = match[1].toLowerCase();
+	const text = match[2].trim();
+	if (ENTITY_TYPE_PREFIXES.includes(prefix as WikibaseEntityType)) {
+		return { text, type: prefix as WikibaseEntityType };
+	}
+	if (/^q\d+$/.test(prefix)) {
+		return { text, instanceOf: prefix.toUpperCase() };
+	}
+	if (filters[prefix]) {
+		return { text, instanceOf: filters[prefix] };
+	}
+	return { text: query.trim() };
+}
+
+/**
+ * Parse "book: Q7725634" lines into class IDs keyed by lower-case filter
+ * name. Lines that do not end in an item ID are ignored.
+ */
+export function parseSearchTypeFilters(value: string): {
+	[name: string]: string;
+} {
+	const filters: { [name: string]: string } = {};
+	for (const line of value.split("\n")) {
+		const match = line.match(/^\s*([^:=]*[^\s:=])\s*[:=]\s*(Q\d+)\s*$/i);
+		if (match) {
+			filters[match[1].toLowerCase()] = match[2].toUpperCase();
+		}
+	}
+	return filters;
+}
+
+/**
+ * A property value as plain text for the search preview: the statement
+ * value without its qualifiers, and links as the text they display.
+ */
+export function displayValue(value: Value): string {
+	const scalar = typeof value === "object" ? value.value : value;
+	const text = Array.isArray(scalar)
+		? scalar.join(", ")
+		: String(scalar ?? "");
+	const link = text.match(/^\[\[([^\]|]*)(?:\|([^\]]*))?\]\]$/);
+	if (!link) return text;
+	return link[2] ?? link[1].substring(link[1].lastIndexOf("/") + 1);
+}
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import type { DataAdapter } from "obsidian";
+import {
+	diffImport,
+	hashValue,
+	ImportSnapshots,
+	takeSnapshot,
+} from "./snapshots";
+
+function memoryAdapter(files: { [path: string]: string } = {}): DataAdapter {
+	return {
+		exists: async (path: string) => path in files,
+		read: async (path: string) => files[path],
+		write: async (path: string, data: string) => {
+			files[path] = data;
+		},
+	} as unknown as DataAdapter;
+}
+
+describe("diffImport", () => {
+	const snapshot = takeSnapshot({
+		author: "[[db/Frank Herbert]]",
+		pages: 412,
+	});
+
+	test("tells Wikidata updates from hand edits", () => {
+		const changes = diffImport(
+			{ author: "[[db/Frank Herbert]]", pages: 400 },
+			{
+				author: "[[db/F. Herbert]]",
+				pages: 412,
+				genre: "science fiction",
+			},
+			snapshot,
+			false,
+		);
+		expect(changes).toEqual([
+			{
+				key: "author",
+				kind: "updated",
+				current: "[[db/Frank Herbert]]",
+				value: "[[db/F. Herbert]]",
+				accept: true,
+			},
+			{
+				key: "genre",
+				kind: "added",
+				current: undefined,
+				value: "science fiction",
+				accept: true,
+			},
+		]);
+	});
+
+	test("offers to overwrite hand edits only when overwriting", () => {
+		const changes = diffImport(
+			{ pages: 400 },
+			{ pages: 412 },
+			snapshot,
+			true,
+		);
+		expect(changes.map((c) => [c.kind, c.accept])).toEqual([
+			["edited", true],
+		]);
+	});
+
+	test("reports values changed on both sides, or never tracked, as conflicts", () => {
+		const current = { author: "Herbert", pages: 400 };
+		const fresh = { author: "[[db/F. Herbert]]", pages: 412 };
+		expect(
+			diffImport(current, fresh, snapshot, false).map((c) => [
+				c.key,
+				c.kind,
+				c.accept,
+			]),
+		).toEqual([["author", "conflict", false]]);
+		expect(
+			diffImport(current, fresh, undefined, true).map((c) => [
+				c.key,
+				c.kind,
+				c.accept,
+			]),
+		).toEqual([
+			["author", "conflict", true],
+			["pages", "conflict", true],
+		]);
+	});
+
+	test("ignores values that already match", () => {
+		expect(
+			diffImport({ tags: ["a", "b"] }, { tags: ["a", "b"] }, {}, true),
+		).toEqual([]);
+		expect(hashValue(["a", "b"])).not.toBe(hashValue(["b", "a"]));
+	});
+});
+
+describe("ImportSnapshots", () => {
+	test("persists snapshots to and from disk", async () => {
+		const files = {};
+		const snapshots = new ImportSnapshots(
+			memoryAdapter(files),
+			"snapshots.json",
+		);
+		snapshots.set("Q42", takeSnapshot({ born: "1952-03-11" }));
+		await snapshots.save();
+
+		const reloaded = new ImportSnapshots(
+			memoryAdapter(files),
+			"snapshots.json",
+		);
+		await reloaded.load();
+		expect(reloaded.get("Q42")).toEqual({
+			born: hashValue("1952-03-11"),
+		});
+		expect(reloaded.get("Q1")).toBeUndefined();
+	});
+});
@@ -0,0 +1,161 @@
+import type { DataAdapter } from "obsidian";
+
+/** Hashes of the values last imported for an entity, by frontmatter key. */
+export type Snapshot = { [key: string]: string };
+
+/**
+ * How a frontmatter value compares with what Wikidata now has:
+ *
+ * - `added`: the note has no value for the key yet
+ * - `updated`: Wikidata changed since the last import, the note did not
+ * - `edited`: the note was edited since the last import, Wikidata did not
+ *   change
+ * - `conflict`: both changed, or the key was never imported with tracking
+ */
+export type ChangeKind = "added" | "updated" | "edited" | "conflict";
+
+export interface ImportChange {
+	key: string;
+	kind: ChangeKind;
+	/** The value in the note, if any. */
+	current: unknown;
+	/** The value from Wikidata. */
+	value: unknown;
+	/** Whether the change is applied unless the user decides otherwise. */
+	accept: boolean;
+}
+
+/** Delay before pending changes are written to disk, in milliseconds. */
+const SAVE_DELAY = 2000;
+
+/** A short, stable hash of a frontmatter value (32-bit FNV-1a of its JSON). */
+export function hashValue(value: unknown): string {
+	const json = JSON.stringify(value) ?? "";
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < json.length; i++) {
+		hash ^= json.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function isEmpty(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+/**
+ * Work out the changes a re-import would make to a note's frontmatter, using
+ * the snapshot of the last import to tell hand edits from Wikidata updates.
+ * Additions and Wikidata updates are accepted by default. Hand edits and
+ * conflicts are only overwritten by default with `overwrite`, and hand edits
+ * are left out entirely without it.
+ *
+ * @param current  The note's frontmatter.
+ * @param fresh    The values now on Wikidata, by frontmatter key.
+ */
+export function diffImport(
+	current: { [key: string]: unknown },
+	fresh: { [key: string]: unknown },
+	snapshot: Snapshot | undefined,
+	overwrite: boolean,
+): ImportChange[] {
+	const changes: ImportChange[] = [];
+	for (const [key, value] of Object.entries(fresh)) {
+		const change = { key, current: current[key], value };
+		if (isEmpty(current[key])) {
+			changes.push({ ...change, kind: "added", accept: true });
+			continue;
+		}
+
+		const currentHash = hashValue(current[key]);
+		const freshHash = hashValue(value);
+		if (currentHash === freshHash) continue;
+
+		const last = snapshot?.[key];
+		if (last === currentHash) {
+			changes.push({ ...change, kind: "updated", accept: true });
+		} else if (last === freshHash) {
+			if (overwrite) {
+				changes.push({ ...change, kind: "edited", accept: true });
+			}
+		} else {
+			changes.push({ ...change, kind: "conflict", accept: overwrite });
+		}
+	}
+	return changes;
+}
+
+/** The snapshot to record after importing `fresh`. */
+export function takeSnapshot(fresh: { [key: string]: unknown }): Snapshot {
+	const snapshot: Snapshot = {};
+	for (const [key, value] of Object.entries(fresh)) {
+		snapshot[key] = hashValue(value);
+	}
+	return snapshot;
+}
+
+/**
+ * Snapshots of the last import of each entity, stored as a single JSON file
+ * in the plugin folder. They let a re-import tell values edited by hand from
+ * values changed on Wikidata.
+ */
+export class ImportSnapshots {
+	private adapter: DataAdapter;
+	private path: string;
+	private snapshots: { [entityId: string]: Snapshot } = {};
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	async load(): Promise<void> {
+		if (!(await this.adapter.exists(this.path))) return;
+
+		try {
+			this.snapshots = JSON.parse(await this.adapter.read(this.path));
+		} catch (e) {
+			console.warn(
+				`[wikidata-importer] Ignoring unreadable snapshot file "${this.path}":`,
+				e,
+			);
+			this.snapshots = {};
+		}
+	}
+
+	get(entityId: string): Snapshot | undefined {
+		return this.snapshots[entityId];
+	}
+
+	set(entityId: string, snapshot: Snapshot): void {
+		this.snapshots[entityId] = snapshot;
+		this.scheduleSave();
+	}
+
+	async save(): Promise<void> {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		await this.adapter.write(this.path, JSON.stringify(this.snapshots));
+	}
+
+	private scheduleSave() {
+		if (this.saveTimer !== null) return;
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.save().catch((e) =>
+				console.warn(
+					"[wikidata-importer] Failed to save snapshots:",
+					e,
+				),
+			);
+		}, SAVE_DELAY);
+	}
+}
@@ -0,0 +1,274 @@
+import { type App, Notice, normalizePath, type TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { ConfirmModal } from "./confirm-modal";
+import { importMedia } from "./media";
+import { getPropertiesWithProfiles, type ImportProfile } from "./profiles";
+import {
+	getEntityIdForFile,
+	reportEndpointFailures,
+	writePropertiesToFile,
+} from "./sync";
+import { applyTemplate } from "./templates";
+import {
+	type BatchProperties,
+	type EntityLink,
+	mergeDiagnostics,
+} from "./wikidata";
+
+/** Number of planned notes listed by name in the preview. */
+const PREVIEW_LIMIT = 50;
+
+/**
+ * Pick the links to follow out of an entity's links: those of the properties
+ * listed in the settings (by key or property ID), or all if none are listed.
+ */
+function followedLinks(
+	plugin: WikidataImporterPlugin,
+	links: { [key: string]: EntityLink[] },
+	propertyIds: { [key: string]: string },
+): EntityLink[] {
+	const wanted = plugin.settings.stubProperties;
+	return Object.entries(links)
+		.filter(
+			([key]) =>
+				wanted.length === 0 ||
+				wanted.includes(key) ||
+				(propertyIds[key] !== undefined &&
+					wanted.includes(propertyIds[key])),
+		)
+		.flatMap(([, keyLinks]) => keyLinks);
+}
+
+/**
+ * Work out which linked entities need a note, following links up to `depth`
+ * hops from the imported entity. Entities that already have a note carrying
+ * their ID, and links whose target already exists, are skipped.
+ *
+ * Returns the planned notes and the properties fetched while following links,
+ * which covers every planned note but those of the last hop.
+ */
+async function planLinkedNotes(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+	root: BatchProperties,
+	depth: number,
+): Promise<{
+	planned: EntityLink[];
+	fetched: BatchProperties;
+	profiles: { [id: string]: ImportProfile | null };
+}> {
+	const seen = new Set([entityId]);
+
+	const planned: EntityLink[] = [];
+	const fetched: BatchProperties = {
+		properties: {},
+		propertyIds: {},
+		links: {},
+		notFound: [],
+		diagnostics: [],
+	};
+	const profiles: { [id: string]: ImportProfile | null } = {};
+
+	let frontier = [entityId];
+	let current = root;
+	for (let hop = 1; hop <= depth; hop++) {
+		const next: EntityLink[] = [];
+		for (const id of frontier) {
+			for (const link of followedLinks(
+				plugin,
+				current.links[id] ?? {},
+				current.propertyIds[id] ?? {},
+			)) {
+				if (seen.has(link.id) || plugin.entityIndex.has(link.id)) {
+					continue;
+				}
+				seen.add(link.id);
+				if (plugin.app.vault.getAbstractFileByPath(notePath(link))) {
+					continue;
+				}
+				next.push(link);
+			}
+		}
+		planned.push(...next);
+		if (next.length === 0 || hop === depth) break;
+
+		const level = await getPropertiesWithProfiles(
+			plugin,
+			next.map((link) => link.id),
+		);
+		Object.assign(fetched.properties, level.result.properties);
+		Object.assign(fetched.propertyIds, level.result.propertyIds);
+		Object.assign(fetched.links, level.result.links);
+		fetched.notFound.push(...level.result.notFound);
+		fetched.diagnostics = mergeDiagnostics(
+			fetched.diagnostics,
+			level.result.diagnostics,
+		);
+		Object.assign(profiles, level.profiles);
+
+		frontier = next.map((link) => link.id);
+		current = level.result;
+	}
+
+	return { planned, fetched, profiles };
+}
+
+/** Notes are created where the links to them point, so that they resolve. */
+function notePath(link: EntityLink): string {
+	return normalizePath(`${link.path}.md`);
+}
+
+class LinkedNotesPreviewModal extends ConfirmModal {
+	constructor(app: App, planned: EntityLink[]) {
+		super(app, `Create ${planned.length} linked notes?`, "Create");
+
+		const list = this.contentEl.createEl("ul");
+		for (const link of planned.slice(0, PREVIEW_LIMIT)) {
+			list.createEl("li", { text: `${link.path} (${link.id})` });
+		}
+		if (planned.length > PREVIEW_LIMIT) {
+			this.contentEl.createEl("p", {
+				text: `...and ${planned.length - PREVIEW_LIMIT} more`,
+			});
+		}
+	}
+}
+
+/**
+ * Create notes for the entities linked from an imported entity, up to `depth`
+ * hops away, after showing the user how many will be created.
+ *
+ * @param root  The properties fetched for the imported entity.
+ */
+export async function createLinkedNotes(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+	root: BatchProperties,
+	depth = plugin.settings.stubDepth,
+) {
+	if (depth < 1) return;
+
+	const loading = new Notice("Finding linked entities...");
+	let plan: Awaited<ReturnType<typeof planLinkedNotes>>;
+	try {
+		plan = await planLinkedNotes(plugin, entityId, root, depth);
+	} finally {
+		loading.hide();
+	}
+	const { planned, fetched, profiles } = plan;
+	if (planned.length === 0) return;
+
+	const confirmed = await new LinkedNotesPreviewModal(
+		plugin.app,
+		planned,
+	).confirm();
+	if (!confirmed) return;
+
+	const remaining = planned
+		.map((link) => link.id)
+		.filter(
+			(id) => !fetched.properties[id] && !fetched.notFound.includes(id),
+		);
+	if (remaining.length > 0) {
+		const last = await getPropertiesWithProfiles(plugin, remaining);
+		Object.assign(fetched.properties, last.result.properties);
+		Object.assign(fetched.propertyIds, last.result.propertyIds);
+		Object.assign(profiles, last.profiles);
+		fetched.diagnostics = mergeDiagnostics(
+			fetched.diagnostics,
+			last.result.diagnostics,
+		);
+	}
+	reportEndpointFailures(fetched.diagnostics);
+
+	let created = 0;
+	for (const link of planned) {
+		const properties = fetched.properties[link.id];
+		if (!properties) {
+			console.warn(
+				`[wikidata-importer] Wikidata entity ${link.id} for "${link.path}" was not found`,
+			);
+			continue;
+		}
+		try {
+			const file = await createNote(plugin, notePath(link));
+			await writePropertiesToFile(
+				plugin,
+				link.id,
+				file,
+				properties,
+				fetched.propertyIds[link.id],
+				profiles[link.id],
+			);
+			await applyTemplate(
+				plugin,
+				link.id,
+				file,
+				profiles[link.id],
+				properties,
+				fetched.propertyIds[link.id],
+				true,
+			);
+			await importMedia(
+				plugin,
+				link.id,
+				file,
+				properties,
+				fetched.propertyIds[link.id],
+			);
+			created++;
+		} catch (e) {
+			console.warn(
+				`[wikidata-importer] Failed to create note "${link.path}":`,
+				e,
+			);
+		}
+	}
+
+	new Notice(
+		created === planned.length
+			? `Created ${created} linked notes`
+			: `Created ${created} of ${planned.length} linked notes, see the console`,
+	);
+}
+
+async function createNote(
+	plugin: WikidataImporterPlugin,
+	path: string,
+): Promise<TFile> {
+	const folder = path.substring(0, path.lastIndexOf("/"));
+	if (folder && !plugin.app.vault.getAbstractFileByPath(folder)) {
+		await plugin.app.vault.createFolder(folder);
+	}
+	return plugin.app.vault.create(path, "");
+}
+
+/**
+ * Create notes for the entities linked from the active note, as configured
+ * for automatic creation but following at least one hop.
+ */
+export async function createLinkedNotesForActiveFile(
+	plugin: WikidataImporterPlugin,
+) {
+	const file = plugin.app.workspace.getActiveFile();
+	const entityId = file ? getEntityIdForFile(plugin, file) : null;
+	if (!entityId) {
+		new Notice(
+			`No Wikidata entity ID found in frontmatter key "${plugin.settings.entityIdKey}"`,
+		);
+		return;
+	}
+
+	try {
+		const { result } = await getPropertiesWithProfiles(plugin, [entityId]);
+		await createLinkedNotes(
+			plugin,
+			entityId,
+			result,
+			Math.max(1, plugin.settings.stubDepth),
+		);
+	} catch (e) {
+		new Notice(`Error creating linked notes: ${e}`);
+	}
+}
@@ -0,0 +1,288 @@
+import { Notice, type TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { getSitelink, importMedia } from "./media";
+import type { ImportProfile } from "./profiles";
+import { reviewChanges } from "./review";
+import { diffImport, takeSnapshot } from "./snapshots";
+import { applyTemplate } from "./templates";
+import {
+	type BatchProperties,
+	describeEndpointFailures,
+	type EndpointDiagnostic,
+	Entity,
+	EntityNotFoundError,
+	type GetPropertiesOptions,
+	type Properties,
+	parseEntityId,
+	parseEntityReference,
+} from "./wikidata";
+
+/**
+ * Read the Wikidata entity ID stored in a note's frontmatter. Entity page URLs
+ * and concept URIs of the configured Wikibase source are accepted and reduced
+ * to the bare ID. Returns null if the note does not carry a usable ID.
+ */
+export function getEntityIdForFile(
+	plugin: WikidataImporterPlugin,
+	file: TFile,
+): string | null {
+	const frontmatter =
+		plugin.app.metadataCache.getFileCache(file)?.frontmatter || {};
+
+	const entityId = frontmatter[plugin.settings.entityIdKey];
+	if (typeof entityId !== "string") {
+		return null;
+	}
+	return parseEntityId(entityId, plugin.settings.wikibaseSource);
+}
+
+/**
+ * Whether a note's frontmatter refers to an entity in any way
+ * resolveEntityIdForFile understands, without looking anything up.
+ */
+export function hasEntityReference(
+	plugin: WikidataImporterPlugin,
+	file: TFile,
+): boolean {
+	const value =
+		plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[
+			plugin.settings.entityIdKey
+		];
+	return (
+		typeof value === "string" &&
+		parseEntityReference(value, plugin.settings.wikibaseSource) !== null
+	);
+}
+
+/**
+ * Like getEntityIdForFile, but the frontmatter may also hold a Wikipedia
+ * article URL or an external identifier such as an ISBN, which is looked up
+ * (see Entity.resolveReference). Returns null if there is no reference or
+ * no entity was found for it.
+ */
+export async function resolveEntityIdForFile(
+	plugin: WikidataImporterPlugin,
+	file: TFile,
+): Promise<string | null> {
+	const entityId = getEntityIdForFile(plugin, file);
+	if (entityId) return entityId;
+
+	const value =
+		plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[
+			plugin.settings.entityIdKey
+		];
+	if (typeof value !== "string") return null;
+	return Entity.resolveReference(value, {
+		language: plugin.settings.language,
+		source: plugin.settings.wikibaseSource,
+	});
+}
+
+/**
+ * Options for fetching properties from the plugin settings, with the link
+ * prefix and property mappings of `profile` applied over the global ones.
+ */
+export function getPropertiesOptions(
+	plugin: WikidataImporterPlugin,
+	profile: ImportProfile | null = null,
+): GetPropertiesOptions {
+	return {
+		language: plugin.settings.language,
+		ignoreCategories: plugin.settings.ignoreCategories,
+		ignoreWikipediaPages: plugin.settings.ignoreWikipediaPages,
+		ignoreIDs: plugin.settings.ignoreIDs,
+		ignorePropertiesWithTimeRanges:
+			plugin.settings.ignorePropertiesWithTimeRanges,
+		internalLinkPrefix:
+			profile?.internalLinkPrefix || plugin.settings.internalLinkPrefix,
+		spaceReplacement: plugin.settings.spaceReplacement,
+		endpoints: plugin.settings.sparqlEndpoints,
+		source: plugin.settings.wikibaseSource,
+		qualifierFormat: plugin.settings.qualifierFormat,
+		qualifierProperties: plugin.settings.qualifierProperties,
+		rankPolicy: plugin.settings.rankPolicy,
+		unitFormat: plugin.settings.unitFormat,
+		normalizeUnits: plugin.settings.normalizeUnits,
+		dateFormat: plugin.settings.dateFormat,
+		propertyMappings: {
+			...plugin.settings.propertyMappings,
+			...profile?.propertyMappings,
+		},
+		resolveLink: plugin.settings.linkToExistingNotes
+			? (entityId) => plugin.entityIndex.linkPath(entityId)
+			: undefined,
+		importTerms: plugin.settings.importTerms,
+	};
+}
+
+/** Tell the user which SPARQL endpoints failed, if any did. */
+export function reportEndpointFailures(diagnostics: EndpointDiagnostic[]) {
+	const message = describeEndpointFailures(diagnostics);
+	if (message) new Notice(message);
+}
+
+/**
+ * Import an entity's properties into `file`, then render the note template:
+ * all of it if the note was just `created`, only its delimited section
+ * otherwise. Changes to an existing note are shown for review first, if that
+ * is enabled. Returns the fetched properties, or null if the user cancelled.
+ */
+export async function syncEntityToFile(
+	plugin: WikidataImporterPlugin,
+	entity: Entity,
+	file: TFile,
+	profile: ImportProfile | null = null,
+	created = false,
+): Promise<BatchProperties | null> {
+	const result = await Entity.getPropertiesMany(
+		[entity.id],
+		getPropertiesOptions(plugin, profile),
+	);
+	reportEndpointFailures(result.diagnostics);
+	const { properties, propertyIds, notFound } = result;
+	if (notFound.includes(entity.id)) {
+		throw new EntityNotFoundError(entity.id);
+	}
+	const written = await writePropertiesToFile(
+		plugin,
+		entity.id,
+		file,
+		properties[entity.id],
+		propertyIds[entity.id],
+		profile,
+		!created && plugin.settings.reviewImportChanges,
+	);
+	if (!written) return null;
+	await applyTemplate(
+		plugin,
+		entity.id,
+		file,
+		profile,
+		properties[entity.id],
+		propertyIds[entity.id],
+		created,
+	);
+	await importMedia(
+		plugin,
+		entity.id,
+		file,
+		properties[entity.id],
+		propertyIds[entity.id],
+	);
+	return result;
+}
+
+/**
+ * Leave out the properties excluded by the allowed/blocked property lists,
+ * which may name keys or, given `propertyIds`, property IDs. A profile's
+ * allowed properties replace the global ones. Qualifier and unit keys are
+ * matched by the property they belong to, and terms are always allowed.
+ */
+export function filterProperties(
+	plugin: WikidataImporterPlugin,
+	properties: Properties,
+	propertyIds: { [key: string]: string } = {},
+	profile: ImportProfile | null = null,
+): Properties {
+	const listed = (list: string[], key: string) =>
+		list.includes(key) ||
+		(propertyIds[key] !== undefined && list.includes(propertyIds[key]));
+
+	const allowedProperties = profile?.allowedProperties.length
+		? profile.allowedProperties
+		: plugin.settings.allowedProperties;
+
+	const keys = Object.keys(properties);
+	const ret: Properties = {};
+	for (const [key, value] of Object.entries(properties)) {
+		// Qualifier and unit keys are listed by the property they belong to,
+		// and the terms are kept whatever the allowed properties are
+		const isTerm = propertyIds[key] === undefined && Entity.isTermKey(key);
+		const parent =
+			propertyIds[key] === undefined && !isTerm
+				? Entity.companionParent(key, keys, {
+						spaceReplacement: plugin.settings.spaceReplacement,
+					})
+				: null;
+		const subject = parent ?? key;
+		if (
+			// If the "allowed properties" is defined, only import properties that are defined in the setting
+			// If the "blocked properties" is defined, do not import properties that are defined in the setting
+			(allowedProperties?.length &&
+				!isTerm &&
+				!listed(allowedProperties, subject)) ||
+			(plugin.settings.blockedProperties?.length &&
+				listed(plugin.settings.blockedProperties, subject))
+		) {
+			continue;
+		}
+		ret[key] = value;
+	}
+	return ret;
+}
+
+/**
+ * Write already-fetched properties into a note's frontmatter, honouring the
+ * allowed/blocked property lists (see filterProperties), together with the
+ * entity's Wikipedia article if that is imported.
+ *
+ * Values are compared with a snapshot of the last import, so that values
+ * edited in the note are only overwritten if the overwrite setting is on
+ * while values changed on Wikidata are updated. With `review`, the user picks
+ * which changes to apply; changes they reject are not offered again until
+ * Wikidata changes once more. Returns false if the user cancelled.
+ */
+export async function writePropertiesToFile(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+	file: TFile,
+	properties: Properties,
+	propertyIds: { [key: string]: string } = {},
+	profile: ImportProfile | null = null,
+	review = false,
+): Promise<boolean> {
+	const frontmatter =
+		plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+
+	const fresh: { [key: string]: unknown } = {};
+	for (const [key, value] of Object.entries(
+		filterProperties(plugin, properties, propertyIds, profile),
+	)) {
+		fresh[key] = value.length === 1 ? value[0] : value;
+	}
+	const sitelink = await getSitelink(plugin, entityId);
+	if (sitelink) fresh[plugin.settings.wikipediaKey] = sitelink;
+
+	let changes = diffImport(
+		frontmatter,
+		fresh,
+		plugin.snapshots.get(entityId),
+		plugin.settings.overwriteExistingProperties,
+	);
+	if (review && changes.some((change) => change.kind !== "added")) {
+		const accepted = await reviewChanges(plugin.app, file, changes);
+		if (!accepted) return false;
+		changes = accepted;
+	} else {
+		changes = changes.filter((change) => change.accept);
+	}
+
+	await plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+		for (const change of changes) {
+			frontmatter[change.key] = change.value;
+		}
+
+		// Ensure the entity ID is always set, which may not be the case if this is
+		// the first time the entity is being imported.
+		frontmatter[plugin.settings.entityIdKey] = entityId;
+		// The timestamp is only needed, and only kept current, by background
+		// refresh.
+		if (plugin.settings.refreshEnabled && plugin.settings.lastSyncedKey) {
+			frontmatter[plugin.settings.lastSyncedKey] =
+				new Date().toISOString();
+		}
+	});
+	plugin.snapshots.set(entityId, takeSnapshot(fresh));
+	return true;
+}
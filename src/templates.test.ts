@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import {
+	renderTemplate,
+	replaceTemplateSection,
+	type TemplateData,
+} from "./templates";
+
+const DATA: TemplateData = {
+	id: "Q42",
+	label: "Douglas Adams",
+	description: "English author and humourist",
+	aliases: ["Douglas Noel Adams", "DNA"],
+	image: "https://commons.wikimedia.org/wiki/Special:FilePath/Douglas%20adams%20portrait.jpg",
+	extract: "Douglas Noël Adams was an English author.",
+	properties: {
+		"date of birth": ["1952-03-11"],
+		born: ["1952-03-11"],
+		height: [{ amount: 1.96, unit: "m" }],
+		"notable work": [
+			"[[db/The Hitchhiker's Guide to the Galaxy]]",
+			"[[db/Dirk Gently]]",
+		],
+	},
+	propertyIds: {
+		"date of birth": "P569",
+		height: "P2048",
+		"notable work": "P800",
+	},
+};
+
+describe("renderTemplate", () => {
+	test("fills in terms, image and extract", () => {
+		expect(
+			renderTemplate(
+				"# {{label}}\n{{description}} ({{aliases}})\n{{image}}\n\n{{ extract }}",
+				DATA,
+			),
+		).toBe(
+			"# Douglas Adams\nEnglish author and humourist (Douglas Noel Adams, DNA)\n" +
+				"![Douglas Adams](https://commons.wikimedia.org/wiki/Special:FilePath/Douglas%20adams%20portrait.jpg)\n\n" +
+				"Douglas Noël Adams was an English author.",
+		);
+	});
+
+	test("fills in property values by ID and by key", () => {
+		expect(
+			renderTemplate(
+				"Born {{P569}}, {{property:height}}. Works: {{P800}}",
+				DATA,
+			),
+		).toBe(
+			"Born 1952-03-11, 1.96 m. Works: [[db/The Hitchhiker's Guide to the Galaxy]], [[db/Dirk Gently]]",
+		);
+	});
+
+	test("leaves unknown placeholders untouched", () => {
+		expect(renderTemplate("{{date}} {{P9999}}", DATA)).toBe("{{date}} ");
+	});
+});
+
+describe("replaceTemplateSection", () => {
+	test("replaces only the delimited section", () => {
+		const content =
+			"---\na: 1\n---\nMy notes\n<!-- wikidata:start -->\nold\n<!-- wikidata:end -->\nMore notes";
+		const rendered =
+			"Intro\n<!-- wikidata:start -->\nnew\n<!-- wikidata:end -->\n";
+
+		expect(replaceTemplateSection(content, rendered)).toBe(
+			"---\na: 1\n---\nMy notes\n<!-- wikidata:start -->\nnew\n<!-- wikidata:end -->\nMore notes",
+		);
+	});
+
+	test("returns null if the note has no section", () => {
+		expect(
+			replaceTemplateSection(
+				"My notes",
+				"<!-- wikidata:start -->\nnew\n<!-- wikidata:end -->",
+			),
+		).toBeNull();
+	});
+});
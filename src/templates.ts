@@ -0,0 +1,254 @@
+import { Notice, normalizePath, TFile } from "obsidian";
+
+import type WikidataImporterPlugin from "../main";
+import { commonsFileUrl } from "./media";
+import type { ImportProfile } from "./profiles";
+import {
+	Entity,
+	getWikipediaExtract,
+	type Properties,
+	pickWikipediaArticle,
+	type Value,
+} from "./wikidata";
+
+/** Markers delimiting the part of a template that is re-rendered on every
+ *  import, when that is enabled. */
+export const TEMPLATE_SECTION_START = "<!-- wikidata:start -->";
+export const TEMPLATE_SECTION_END = "<!-- wikidata:end -->";
+
+/** Everything a template placeholder can refer to. */
+export interface TemplateData {
+	id: string;
+	label: string;
+	description: string;
+	aliases: string[];
+	/** URL of the entity's image (P18), if it has one. */
+	image: string | null;
+	/** Introduction of the entity's Wikipedia article, if it has one. */
+	extract: string | null;
+	properties: Properties;
+	/** Property IDs keyed by frontmatter key. */
+	propertyIds: { [key: string]: string };
+}
+
+function formatValue(value: Value): string {
+	if (typeof value !== "object") return String(value);
+	const inner = value.value ?? value.amount;
+	if (inner !== undefined) {
+		return [inner, typeof value.unit === "string" ? value.unit : null]
+			.filter((v) => v !== null)
+			.join(" ");
+	}
+	return JSON.stringify(value);
+}
+
+function formatValues(values: Value[] | undefined): string {
+	return (values ?? []).map(formatValue).join(", ");
+}
+
+/**
+ * Fill in the placeholders of a note template:
+ *
+ * - `{{id}}`, `{{label}}`, `{{description}}`, `{{aliases}}`
+ * - `{{image}}`: an embed of the entity's image
+ * - `{{extract}}`: the introduction of its Wikipedia article
+ * - `{{P569}}`: the values of a property, by ID
+ * - `{{property:date of birth}}`: the values of a property, by key
+ *
+ * Multiple values are joined with commas. Other placeholders, such as those of
+ * Obsidian's core Templates plugin, are left untouched.
+ */
+export function renderTemplate(template: string, data: TemplateData): string {
+	const keysById: { [id: string]: string[] } = {};
+	for (const [key, id] of Object.entries(data.propertyIds)) {
+		keysById[id] = keysById[id] ?? [];
+		keysById[id].push(key);
+	}
+
+	return template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, name) => {
+		switch (name) {
+			case "id":
+				return data.id;
+			case "label":
+				return data.label;
+			case "description":
+				return data.description;
+			case "aliases":
+				return data.aliases.join(", ");
+			case "image":
+				return data.image ? `![${data.label}](${data.image})` : "";
+			case "extract":
+				return data.extract ?? "";
+		}
+
+		if (name.startsWith("property:")) {
+			return formatValues(data.properties[name.substring(9).trim()]);
+		}
+		if (/^P\d+$/.test(name)) {
+			return (keysById[name] ?? [])
+				.map((key) => formatValues(data.properties[key]))
+				.filter(Boolean)
+				.join(", ");
+		}
+		return match;
+	});
+}
+
+/**
+ * Replace the delimited section of `content` with the one in `rendered`.
+ * Returns null if either lacks the section.
+ */
+export function replaceTemplateSection(
+	content: string,
+	rendered: string,
+): string | null {
+	const section = (text: string) => {
+		const start = text.indexOf(TEMPLATE_SECTION_START);
+		const end = text.indexOf(
+			TEMPLATE_SECTION_END,
+			start + TEMPLATE_SECTION_START.length,
+		);
+		if (start < 0 || end < 0) return null;
+		return { start, end: end + TEMPLATE_SECTION_END.length };
+	};
+
+	const target = section(content);
+	const replacement = section(rendered);
+	if (!target || !replacement) return null;
+
+	return (
+		content.substring(0, target.start) +
+		rendered.substring(replacement.start, replacement.end) +
+		content.substring(target.end)
+	);
+}
+
+/** Template paths already reported missing, so that bulk imports and
+ *  background refresh only report each once. */
+const missingTemplates = new Set<string>();
+
+/**
+ * Read the template for new notes: the profile's if it has one, the global
+ * one otherwise. Returns "" if neither is set, or if the template file does
+ * not exist, in which case notes are imported without it.
+ */
+export async function readTemplate(
+	plugin: WikidataImporterPlugin,
+	profile: ImportProfile | null,
+): Promise<string> {
+	const template = profile?.template || plugin.settings.noteTemplate;
+	if (!template) return "";
+
+	const path = normalizePath(
+		template.endsWith(".md") ? template : `${template}.md`,
+	);
+	const file = plugin.app.vault.getAbstractFileByPath(path);
+	if (!(file instanceof TFile)) {
+		if (!missingTemplates.has(path)) {
+			missingTemplates.add(path);
+			new Notice(
+				`Template "${path}" not found, importing without a template`,
+			);
+		}
+		return "";
+	}
+	missingTemplates.delete(path);
+	return plugin.app.vault.read(file);
+}
+
+/**
+ * Gather the data for rendering `template`. Terms and the Wikipedia extract
+ * are only fetched if the template uses them.
+ */
+async function getTemplateData(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+	properties: Properties,
+	propertyIds: { [key: string]: string },
+	template: string,
+): Promise<TemplateData> {
+	const data: TemplateData = {
+		id: entityId,
+		label: "",
+		description: "",
+		aliases: [],
+		image: null,
+		extract: null,
+		properties,
+		propertyIds,
+	};
+
+	const uses = (name: string) =>
+		new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template);
+
+	if (["label", "description", "aliases", "image", "extract"].some(uses)) {
+		const terms = await Entity.getTerms(entityId, {
+			language: plugin.settings.language,
+			source: plugin.settings.wikibaseSource,
+		});
+		data.label = terms.label ?? "";
+		data.description = terms.description ?? "";
+		data.aliases = terms.aliases;
+
+		const article = pickWikipediaArticle(
+			terms.sitelinks,
+			plugin.settings.language,
+		);
+		if (uses("extract") && article) {
+			data.extract = await getWikipediaExtract(
+				article.lang,
+				article.title,
+			);
+		}
+	}
+
+	const imageKey = Object.keys(propertyIds).find(
+		(key) => propertyIds[key] === "P18",
+	);
+	const image = imageKey ? properties[imageKey]?.[0] : undefined;
+	if (typeof image === "string") {
+		data.image = commonsFileUrl(image);
+	}
+
+	return data;
+}
+
+/**
+ * Render the note template for an entity into `file`. A newly created note
+ * gets the whole template appended to its (frontmatter-only) content. An
+ * existing note only has its delimited section re-rendered, and only if that
+ * is enabled in the settings.
+ */
+export async function applyTemplate(
+	plugin: WikidataImporterPlugin,
+	entityId: string,
+	file: TFile,
+	profile: ImportProfile | null,
+	properties: Properties,
+	propertyIds: { [key: string]: string },
+	created: boolean,
+) {
+	if (!created && !plugin.settings.rerenderTemplateSection) return;
+
+	const template = await readTemplate(plugin, profile);
+	if (!template) return;
+	if (!created && !template.includes(TEMPLATE_SECTION_START)) return;
+
+	const rendered = renderTemplate(
+		template,
+		await getTemplateData(
+			plugin,
+			entityId,
+			properties,
+			propertyIds,
+			template,
+		),
+	);
+
+	await plugin.app.vault.process(file, (content) => {
+		if (created) {
+			return content ? `${content.trimEnd()}\n\n${rendered}` : rendered;
+		}
+		return replaceTemplateSection(content, rendered) ?? content;
+	});
+}
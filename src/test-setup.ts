@@ -1,20 +1,50 @@
 import { mock } from "bun:test";
+import type { RequestUrlParam } from "obsidian";
 
 mock.module("obsidian", () => ({
-	requestUrl: async (
-		request: string | { url: string; headers?: Record<string, string> },
-	) => {
-		const url = typeof request === "string" ? request : request.url;
-		const headers =
-			typeof request === "string" ? undefined : request.headers;
+	normalizePath: (path: string) => path,
+	Notice: class Notice {},
+	TFile: class TFile {},
+	requestUrl: async (request: string | RequestUrlParam) => {
+		const {
+			url,
+			method,
+			body,
+			contentType,
+			headers = {},
+		} = typeof request === "string" ? { url: request } : request;
 
-		const response = await fetch(url, { headers });
-		if (!response.ok) {
+		const response = await fetch(url, {
+			method,
+			body: body as BodyInit | undefined,
+			headers: contentType
+				? { ...headers, "Content-Type": contentType }
+				: headers,
+		});
+		if (
+			!response.ok &&
+			(typeof request === "string" || request.throw !== false)
+		) {
 			throw new Error(
 				`Request failed: ${response.status} ${response.statusText}`,
 			);
 		}
 
-		return { json: await response.json() };
+		const responseHeaders: Record<string, string> = {};
+		response.headers.forEach((value, key) => {
+			responseHeaders[key] = value;
+		});
+		const arrayBuffer = await response.arrayBuffer();
+		const text = new TextDecoder().decode(arrayBuffer);
+		return {
+			status: response.status,
+			headers: responseHeaders,
+			arrayBuffer,
+			text,
+			// Like Obsidian's, throws if the body is not JSON.
+			get json() {
+				return JSON.parse(text);
+			},
+		};
 	},
 }));
@@ -0,0 +1,236 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+	diffProperties,
+	toDatavalue,
+	WikibaseApiError,
+	WikibaseClient,
+} from "./wikibase";
+
+/** A stand-in for the MediaWiki action API that records edit requests. */
+function standInApi() {
+	const edits: { [key: string]: string }[] = [];
+
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			const url = new URL(request.url);
+			const params: { [key: string]: string } = Object.fromEntries(
+				url.searchParams,
+			);
+			if (request.method === "POST") {
+				Object.assign(
+					params,
+					Object.fromEntries(
+						new URLSearchParams(await request.text()),
+					),
+				);
+			}
+			const loggedIn = request.headers.get("cookie") === "session=abc";
+
+			switch (params.action) {
+				case "query":
+					return Response.json({
+						query: {
+							tokens:
+								params.type === "login"
+									? { logintoken: "login+\\" }
+									: { csrftoken: "csrf+\\" },
+						},
+					});
+				case "login":
+					return Response.json(
+						{
+							login:
+								params.lgpassword === "secret"
+									? { result: "Success" }
+									: {
+											result: "Failed",
+											reason: "Wrong password",
+										},
+						},
+						{ headers: { "Set-Cookie": "session=abc; path=/" } },
+					);
+				case "wbgetentities":
+					return Response.json({
+						entities: { P569: { datatype: "time" } },
+					});
+				case "wbgetclaims":
+					return Response.json({
+						claims: {
+							P569: [
+								{
+									id: "Q42$1",
+									mainsnak: {
+										datavalue: { value: { time: "x" } },
+									},
+								},
+							],
+						},
+					});
+				case "wbcreateclaim":
+				case "wbsetclaimvalue":
+					if (!loggedIn || params.token !== "csrf+\\") {
+						return Response.json({
+							error: { code: "badtoken", info: "Invalid token" },
+						});
+					}
+					edits.push(params);
+					return Response.json({ success: 1 });
+			}
+			return Response.json({
+				error: { code: "unknown_action", info: params.action },
+			});
+		},
+	});
+
+	return { url: `http://localhost:${server.port}/w/api.php`, server, edits };
+}
+
+describe("WikibaseClient", () => {
+	const api = standInApi();
+	afterAll(() => api.server.stop(true));
+
+	test("logs in and creates claims", async () => {
+		const client = new WikibaseClient(api.url, {
+			type: "botpassword",
+			username: "Example@obsidian",
+			password: "secret",
+		});
+		await client.login();
+		await client.createClaim("Q42", "P1476", "Title");
+
+		expect(api.edits.at(-1)).toMatchObject({
+			action: "wbcreateclaim",
+			entity: "Q42",
+			property: "P1476",
+			value: '"Title"',
+			assert: "user",
+		});
+	});
+
+	test("fails to log in with the wrong password", async () => {
+		const client = new WikibaseClient(api.url, {
+			type: "botpassword",
+			username: "Example@obsidian",
+			password: "wrong",
+		});
+		await expect(client.login()).rejects.toBeInstanceOf(WikibaseApiError);
+	});
+
+	test("records but does not send edits in dry-run mode", async () => {
+		const before = api.edits.length;
+		const client = new WikibaseClient(
+			api.url,
+			{ type: "oauth", token: "token" },
+			true,
+		);
+		const claims = await client.getClaims("Q42", "P569");
+		await client.setClaimValue(claims[0].id, { time: "y" });
+
+		expect(client.edits).toEqual([
+			{
+				action: "wbsetclaimvalue",
+				params: {
+					claim: "Q42$1",
+					snaktype: "value",
+					value: '{"time":"y"}',
+				},
+			},
+		]);
+		expect(api.edits.length).toBe(before);
+	});
+
+	test("fetches property datatypes", async () => {
+		const client = new WikibaseClient(api.url, {
+			type: "oauth",
+			token: "token",
+		});
+		expect(await client.getPropertyDatatypes(["P569"])).toEqual({
+			P569: "time",
+		});
+	});
+});
+
+describe("diffProperties", () => {
+	test("reports replaced and added values, but not removed ones", () => {
+		const changes = diffProperties(
+			{ title: "New", genre: ["[[db/a]]", "[[db/c]]"], author: [] },
+			{ title: ["Old"], genre: ["[[db/a]]", "[[db/b]]"], author: ["x"] },
+			{ title: "P1476", genre: "P136", author: "P50" },
+		);
+		expect(changes).toEqual([
+			{
+				key: "title",
+				propertyId: "P1476",
+				value: "New",
+				replaces: "Old",
+			},
+			{ key: "genre", propertyId: "P136", value: "[[db/c]]" },
+		]);
+	});
+});
+
+describe("toDatavalue", () => {
+	const noLinks = () => null;
+
+	test("converts dates with their precision", () => {
+		expect(toDatavalue("1952-03", "time", "en", noLinks)).toMatchObject({
+			time: "+1952-03-00T00:00:00Z",
+			precision: 10,
+		});
+	});
+
+	test("keeps the unit of the replaced quantity", () => {
+		expect(
+			toDatavalue(1.97, "quantity", "en", noLinks, {
+				amount: "+1.96",
+				unit: "http://www.wikidata.org/entity/Q11573",
+			}),
+		).toEqual({
+			amount: "+1.97",
+			unit: "http://www.wikidata.org/entity/Q11573",
+		});
+	});
+
+	test("refuses quantities normalized to SI units", () => {
+		expect(
+			toDatavalue(
+				0.6,
+				"quantity",
+				"en",
+				noLinks,
+				{
+					amount: "+600",
+					unit: "http://www.wikidata.org/entity/Q174789",
+				},
+				true,
+			),
+		).toBeNull();
+	});
+
+	test("converts dates replacing Julian dates back to the Julian calendar", () => {
+		expect(
+			toDatavalue("1564-04-27", "time", "en", noLinks, {
+				time: "+1564-04-26T00:00:00Z",
+				precision: 11,
+				calendarmodel: "http://www.wikidata.org/entity/Q1985786",
+			}),
+		).toMatchObject({
+			time: "+1564-04-17T00:00:00Z",
+			precision: 11,
+			calendarmodel: "http://www.wikidata.org/entity/Q1985786",
+		});
+	});
+
+	test("resolves internal links to linked notes' entities", () => {
+		expect(
+			toDatavalue("[[db/human|Human]]", "wikibase-item", "en", (link) =>
+				link === "db/human" ? "Q5" : null,
+			),
+		).toEqual({ "entity-type": "item", "numeric-id": 5, id: "Q5" });
+	});
+
+	test("rejects unsupported datatypes", () => {
+		expect(toDatavalue("x", "geo-shape", "en", noLinks)).toBeNull();
+	});
+});
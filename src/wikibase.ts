@@ -0,0 +1,409 @@
+import { request } from "./request";
+import {
+	gregorianToJulian,
+	JULIAN_CALENDAR,
+	type Properties,
+	type Value,
+} from "./wikidata";
+
+/**
+ * Credentials for editing a Wikibase. Bot passwords are created at
+ * Special:BotPasswords; OAuth tokens are owner-only OAuth 2 access tokens
+ * created at Special:OAuthConsumerRegistration.
+ */
+export type WikibaseCredentials =
+	| { type: "botpassword"; username: string; password: string }
+	| { type: "oauth"; token: string };
+
+/** A claim as returned by `wbgetclaims`, reduced to what editing needs. */
+export interface Claim {
+	id: string;
+	value: unknown;
+}
+
+/** An edit request that was, or in dry-run mode would have been, sent. */
+export interface EditRequest {
+	action: "wbcreateclaim" | "wbsetclaimvalue";
+	params: { [key: string]: string };
+}
+
+export class WikibaseApiError extends Error {
+	code: string;
+
+	constructor(code: string, info: string) {
+		super(`Wikibase API error "${code}": ${info}`);
+		this.name = "WikibaseApiError";
+		this.code = code;
+	}
+}
+
+/** The parts of an action API response the client reads. */
+interface ApiResponse {
+	error?: { code: string; info: string };
+	query?: { tokens?: { logintoken?: string; csrftoken?: string } };
+	login?: { result?: string; reason?: string };
+	entities?: { [id: string]: { datatype?: string } };
+	claims?: {
+		[propertyId: string]: {
+			id: string;
+			mainsnak?: { datavalue?: { value: unknown } };
+		}[];
+	};
+}
+
+const EDIT_SUMMARY = "Edited from Obsidian via Wikidata Importer";
+
+/**
+ * Minimal client for the Wikibase editing API.
+ *
+ * In dry-run mode everything up to the edits themselves happens as usual
+ * (logging in, fetching tokens and existing claims), but `wbcreateclaim` and
+ * `wbsetclaimvalue` are only recorded in `edits`, never sent.
+ */
+export class WikibaseClient {
+	apiUrl: string;
+	credentials: WikibaseCredentials;
+	dryRun: boolean;
+	/** Edits made (or skipped, in dry-run mode) so far. */
+	edits: EditRequest[] = [];
+	private cookies = new Map<string, string>();
+	private csrfToken: string | null = null;
+
+	constructor(
+		apiUrl: string,
+		credentials: WikibaseCredentials,
+		dryRun = false,
+	) {
+		this.apiUrl = apiUrl;
+		this.credentials = credentials;
+		this.dryRun = dryRun;
+	}
+
+	/**
+	 * Call the API and return its JSON response, throwing WikibaseApiError if
+	 * it reports an error. Parameters are sent as a form body when `post` is
+	 * set, and in the query string otherwise.
+	 */
+	private async call(
+		params: { [key: string]: string },
+		post = false,
+	): Promise<ApiResponse> {
+		const query = new URLSearchParams({
+			...params,
+			format: "json",
+			formatversion: "2",
+		}).toString();
+
+		const headers: Record<string, string> = {};
+		if (this.credentials.type === "oauth") {
+			headers.Authorization = `Bearer ${this.credentials.token}`;
+		}
+		if (this.cookies.size > 0) {
+			headers.Cookie = Array.from(this.cookies.entries())
+				.map(([name, value]) => `${name}=${value}`)
+				.join("; ");
+		}
+
+		// Edits are not retried, so that they are never made twice.
+		const response = await request(
+			{
+				url: post ? this.apiUrl : `${this.apiUrl}?${query}`,
+				method: post ? "POST" : "GET",
+				contentType: post
+					? "application/x-www-form-urlencoded"
+					: undefined,
+				body: post ? query : undefined,
+				headers,
+			},
+			post ? 0 : undefined,
+		);
+
+		const setCookie =
+			response.headers?.["set-cookie"] ??
+			response.headers?.["Set-Cookie"];
+		if (setCookie) {
+			for (const cookie of setCookie.split(/,(?=\s*[^;,\s]+=)/)) {
+				const [pair] = cookie.trim().split(";");
+				const index = pair.indexOf("=");
+				if (index > 0) {
+					this.cookies.set(
+						pair.substring(0, index),
+						pair.substring(index + 1),
+					);
+				}
+			}
+		}
+
+		const json = response.json as ApiResponse;
+		if (json?.error) {
+			throw new WikibaseApiError(json.error.code, json.error.info);
+		}
+		return json;
+	}
+
+	/** Log in with a bot password. OAuth requests need no separate login. */
+	async login(): Promise<void> {
+		if (this.credentials.type !== "botpassword") return;
+
+		const tokens = await this.call({
+			action: "query",
+			meta: "tokens",
+			type: "login",
+		});
+		const token = tokens.query?.tokens?.logintoken;
+		if (!token) {
+			throw new WikibaseApiError("notoken", "no login token returned");
+		}
+		const result = await this.call(
+			{
+				action: "login",
+				lgname: this.credentials.username,
+				lgpassword: this.credentials.password,
+				lgtoken: token,
+			},
+			true,
+		);
+		if (result.login?.result !== "Success") {
+			throw new WikibaseApiError(
+				"login-failed",
+				result.login?.reason ?? "unknown reason",
+			);
+		}
+	}
+
+	private async getCsrfToken(): Promise<string> {
+		if (!this.csrfToken) {
+			const tokens = await this.call({ action: "query", meta: "tokens" });
+			const token = tokens.query?.tokens?.csrftoken;
+			if (!token) {
+				throw new WikibaseApiError("notoken", "no CSRF token returned");
+			}
+			this.csrfToken = token;
+		}
+		return this.csrfToken;
+	}
+
+	/** Fetch the datatype (e.g. `time`, `wikibase-item`) of each property. */
+	async getPropertyDatatypes(
+		propertyIds: string[],
+	): Promise<{ [id: string]: string }> {
+		const ret: { [id: string]: string } = {};
+		if (propertyIds.length === 0) return ret;
+
+		const json = await this.call({
+			action: "wbgetentities",
+			ids: propertyIds.join("|"),
+			props: "datatype",
+		});
+		for (const [id, entity] of Object.entries(json.entities ?? {})) {
+			if (typeof entity?.datatype === "string") {
+				ret[id] = entity.datatype;
+			}
+		}
+		return ret;
+	}
+
+	async getClaims(entityId: string, propertyId: string): Promise<Claim[]> {
+		const json = await this.call({
+			action: "wbgetclaims",
+			entity: entityId,
+			property: propertyId,
+		});
+		return (json.claims?.[propertyId] ?? []).map((claim) => ({
+			id: claim.id,
+			value: claim.mainsnak?.datavalue?.value,
+		}));
+	}
+
+	private async edit(
+		action: EditRequest["action"],
+		params: { [key: string]: string },
+	): Promise<void> {
+		this.edits.push({ action, params });
+		if (this.dryRun) return;
+
+		await this.call(
+			{
+				action,
+				...params,
+				summary: EDIT_SUMMARY,
+				assert: "user",
+				maxlag: "5",
+				token: await this.getCsrfToken(),
+			},
+			true,
+		);
+	}
+
+	async createClaim(
+		entityId: string,
+		propertyId: string,
+		value: unknown,
+	): Promise<void> {
+		await this.edit("wbcreateclaim", {
+			entity: entityId,
+			property: propertyId,
+			snaktype: "value",
+			value: JSON.stringify(value),
+		});
+	}
+
+	async setClaimValue(claimId: string, value: unknown): Promise<void> {
+		await this.edit("wbsetclaimvalue", {
+			claim: claimId,
+			snaktype: "value",
+			value: JSON.stringify(value),
+		});
+	}
+}
+
+/** A frontmatter value that differs from what Wikidata currently holds. */
+export interface PropertyChange {
+	key: string;
+	propertyId: string;
+	/** The value in the note. */
+	value: Value;
+	/** The single Wikidata value it replaces, if any. Without one the value is
+	 *  added as a new claim. */
+	replaces?: Value;
+}
+
+const GREGORIAN_CALENDAR = "http://www.wikidata.org/entity/Q1985727";
+
+/** Serialise a value so that scalars and objects compare by content. */
+export function serialise(value: unknown): string {
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Compare a note's frontmatter against freshly fetched properties. Only keys
+ * that map to a known property and are present in both are considered, and
+ * values removed in the note are not reported: pushing never deletes claims.
+ */
+export function diffProperties(
+	frontmatter: { [key: string]: unknown },
+	fresh: Properties,
+	propertyIds: { [key: string]: string },
+): PropertyChange[] {
+	const changes: PropertyChange[] = [];
+
+	for (const [key, remote] of Object.entries(fresh)) {
+		const propertyId = propertyIds[key];
+		const local = frontmatter[key];
+		if (!propertyId || local === undefined || local === null) continue;
+
+		const localValues = (Array.isArray(local) ? local : [local]).filter(
+			(v): v is Value => v !== null && v !== "",
+		);
+		const remoteStrings = remote.map(serialise);
+		const localStrings = localValues.map(serialise);
+
+		const added = localValues.filter(
+			(v) => !remoteStrings.includes(serialise(v)),
+		);
+		const removed = remote.filter(
+			(v) => !localStrings.includes(serialise(v)),
+		);
+
+		if (added.length === 1 && removed.length === 1 && remote.length === 1) {
+			changes.push({
+				key,
+				propertyId,
+				value: added[0],
+				replaces: removed[0],
+			});
+			continue;
+		}
+		for (const value of added) {
+			changes.push({ key, propertyId, value });
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Convert a frontmatter value into a Wikibase datavalue for a property of the
+ * given datatype, or return null if that is not possible. `existing` is the
+ * datavalue being replaced, whose unit or calendar model is kept.
+ *
+ * Imported dates are always in the Gregorian calendar, so a date replacing a
+ * Julian one is converted back before it is stored. Quantities normalized to
+ * SI units on import cannot be converted back to the unit of the claim, and
+ * are refused when `normalizedUnits` is set.
+ *
+ * @param resolveLink  Resolve an internal link to the entity ID of the note
+ *                     it points to.
+ */
+export function toDatavalue(
+	value: Value,
+	datatype: string,
+	language: string,
+	resolveLink: (link: string) => string | null,
+	existing?: unknown,
+	normalizedUnits = false,
+): unknown | null {
+	const previous = (existing ?? {}) as { [key: string]: unknown };
+
+	switch (datatype) {
+		case "string":
+		case "external-id":
+		case "url":
+		case "commonsMedia":
+			return typeof value === "string" ? value : String(value);
+
+		case "monolingualtext":
+			return typeof value === "string" ? { text: value, language } : null;
+
+		case "quantity": {
+			if (typeof value !== "number" || normalizedUnits) return null;
+			return {
+				amount: value >= 0 ? `+${value}` : String(value),
+				unit: typeof previous.unit === "string" ? previous.unit : "1",
+			};
+		}
+
+		case "time": {
+			const match = String(value).match(
+				/^([+-]?)(\d{1,4})(?:-(\d{2})(?:-(\d{2})(?:T[\d:]+Z)?)?)?$/,
+			);
+			if (!match) return null;
+			const calendarmodel =
+				typeof previous.calendarmodel === "string"
+					? previous.calendarmodel
+					: GREGORIAN_CALENDAR;
+			let year = Number.parseInt(`${match[1]}${match[2]}`);
+			let month = match[3] ? Number.parseInt(match[3]) : 0;
+			let day = match[4] ? Number.parseInt(match[4]) : 0;
+			if (calendarmodel === JULIAN_CALENDAR && day) {
+				[year, month, day] = gregorianToJulian(year, month, day);
+			}
+			const pad = (n: number, width: number) =>
+				String(Math.abs(n)).padStart(width, "0");
+			return {
+				time: `${year < 0 ? "-" : "+"}${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}T00:00:00Z`,
+				timezone: 0,
+				before: 0,
+				after: 0,
+				precision: match[4] ? 11 : match[3] ? 10 : 9,
+				calendarmodel,
+			};
+		}
+
+		case "wikibase-item": {
+			const link = String(value).match(
+				/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/,
+			);
+			const id = link ? resolveLink(link[1]) : null;
+			if (!id?.startsWith("Q")) return null;
+			return {
+				"entity-type": "item",
+				"numeric-id": Number.parseInt(id.substring(1)),
+				id,
+			};
+		}
+
+		default:
+			return null;
+	}
+}
@@ -1,5 +1,29 @@
-import { describe, expect, test } from "bun:test";
-import { Entity, EntityNotFoundError } from "./wikidata";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { configureRequests, DEFAULT_REQUEST_OPTIONS } from "./request";
+import {
+	DEFAULT_SPARQL_ENDPOINTS,
+	describeEndpointFailures,
+	Entity,
+	EntityNotFoundError,
+	formatTime,
+	type GetPropertiesOptions,
+	mergeDiagnostics,
+	parseEntityId,
+	parseEntityReference,
+	rankSearchResults,
+	type SparqlEndpoint,
+	WIKIDATA_SOURCE,
+} from "./wikidata";
+
+/** A Wikibase whose entities are MediaInfo, as on Wikimedia Commons. */
+const COMMONS_SOURCE = {
+	...WIKIDATA_SOURCE,
+	name: "Wikimedia Commons",
+	apiUrl: "https://commons.wikimedia.org/w/api.php",
+	pageUrl: "https://commons.wikimedia.org/wiki/",
+	entityUri: "https://commons.wikimedia.org/entity/",
+	entityType: "mediainfo" as const,
+};
 
 const DEFAULT_OPTIONS = {
 	language: "mul,en",
@@ -51,6 +75,152 @@ describe("Entity", () => {
 		).rejects.toThrow(EntityNotFoundError);
 	});
 
+	test("only queries enabled endpoints", async () => {
+		await expect(
+			Entity.fromId("Q4781761").getProperties({
+				...DEFAULT_OPTIONS,
+				endpoints: DEFAULT_SPARQL_ENDPOINTS.map((endpoint) => ({
+					...endpoint,
+					enabled: endpoint.dialect === "blazegraph",
+				})),
+			}),
+		).rejects.toThrow(EntityNotFoundError);
+	});
+
+	test("imports qualifiers as companion keys", async () => {
+		const properties = await Entity.fromId("Q42").getProperties({
+			...DEFAULT_OPTIONS,
+			qualifierFormat: "keys",
+			qualifierProperties: ["P26"],
+		});
+
+		expect(properties.spouse).toContain("[[db/Jane Belson]]");
+		expect(properties["spouse (start time)"]).toContain(
+			"1991-11-25T00:00:00Z",
+		);
+		expect(properties["place of birth (start time)"]).toBeUndefined();
+	});
+
+	test("imports qualifiers nested under each value", async () => {
+		const properties = await Entity.fromId("Q42").getProperties({
+			...DEFAULT_OPTIONS,
+			qualifierFormat: "nested",
+		});
+
+		expect(properties.spouse).toContainEqual(
+			expect.objectContaining({
+				value: "[[db/Jane Belson]]",
+				"start time": "1991-11-25T00:00:00Z",
+			}),
+		);
+	});
+
+	test("includes normal-rank values alongside preferred ones when asked", async () => {
+		const best = await Entity.fromId("Q64").getProperties(DEFAULT_OPTIONS);
+		const all = await Entity.fromId("Q64").getProperties({
+			...DEFAULT_OPTIONS,
+			rankPolicy: "nondeprecated",
+		});
+
+		expect(best.population).toHaveLength(1);
+		expect(all.population.length).toBeGreaterThan(1);
+	});
+
+	test("imports quantity units in the configured format", async () => {
+		const suffixed = await Entity.fromId("Q42").getProperties({
+			...DEFAULT_OPTIONS,
+			unitFormat: "suffix",
+		});
+		const separate = await Entity.fromId("Q42").getProperties({
+			...DEFAULT_OPTIONS,
+			unitFormat: "key",
+		});
+
+		expect(suffixed.height).toContain("1.96 m");
+		expect(separate.height).toContain(1.96);
+		expect(separate["height unit"]).toContain("m");
+	});
+
+	test("formats dates according to their precision", async () => {
+		const properties = await Entity.fromId("Q12418").getProperties({
+			...DEFAULT_OPTIONS,
+			dateFormat: "precision",
+		});
+
+		expect(properties.inception).toContain("1503");
+	});
+
+	test("fetches many entities in one batch and reports missing ones", async () => {
+		const { properties, notFound } = await Entity.getPropertiesMany(
+			["Q42", "Q4781761", "Q34213821738927189371289371289"],
+			DEFAULT_OPTIONS,
+		);
+
+		expect(properties.Q42["instance of"]).toContain("[[db/human]]");
+		expect(properties.Q42.DOI).toBeUndefined();
+		expect(properties.Q4781761.DOI).toContain(
+			"10.1371/JOURNAL.PCBI.1002803",
+		);
+		expect(notFound).toEqual(["Q34213821738927189371289371289"]);
+	});
+
+	test("maps property IDs to keys regardless of language", async () => {
+		const { properties, propertyIds } = await Entity.getPropertiesMany(
+			["Q42"],
+			{
+				...DEFAULT_OPTIONS,
+				language: "de",
+				propertyMappings: {
+					P31: "type",
+					P569: "dates",
+					P570: "dates",
+					P214: "viaf",
+				},
+			},
+		);
+
+		expect(properties.Q42.type).toContain("[[db/Mensch]]");
+		expect(properties.Q42.dates).toHaveLength(2);
+		expect(properties.Q42.viaf).toBeDefined();
+		expect(propertyIds.Q42.type).toBe("P31");
+		expect(propertyIds.Q42.dates).toBeUndefined();
+	});
+
+	test("reports the entities linked from each property", async () => {
+		const { links } = await Entity.getPropertiesMany(
+			["Q42"],
+			DEFAULT_OPTIONS,
+		);
+
+		expect(links.Q42["instance of"]).toEqual([
+			{ id: "Q5", label: "human", path: "db/human" },
+		]);
+	});
+
+	test("links to existing notes found by entity ID", async () => {
+		const properties = await Entity.fromId("Q42").getProperties({
+			...DEFAULT_OPTIONS,
+			resolveLink: (id) =>
+				id === "Q5" ? "Biology/Human (species)" : null,
+		});
+
+		expect(properties["instance of"]).toEqual([
+			"[[Biology/Human (species)]]",
+		]);
+		expect(properties["sex or gender"]).toEqual(["[[db/male]]"]);
+	});
+
+	test("matches entities against classes and their subclasses", async () => {
+		const instanceOf = await Entity.getInstanceOfMany(
+			["Q42", "Q64"],
+			["Q5", "Q215627", "Q571"],
+			{},
+		);
+
+		expect(instanceOf.Q42.sort()).toEqual(["Q215627", "Q5"]);
+		expect(instanceOf.Q64).toEqual([]);
+	});
+
 	test("uses one preferred QLever label for multilingual property labels", async () => {
 		const properties = await Entity.fromId("Q42").getProperties({
 			...DEFAULT_OPTIONS,
@@ -61,3 +231,598 @@ describe("Entity", () => {
 		expect(properties.height).toBeUndefined();
 	});
 });
+
+describe("parseEntityId", () => {
+	test("accepts bare IDs, page URLs and concept URIs", () => {
+		expect(parseEntityId("Q42")).toBe("Q42");
+		expect(parseEntityId("https://www.wikidata.org/wiki/Q42")).toBe("Q42");
+		expect(parseEntityId("http://www.wikidata.org/entity/P31")).toBe("P31");
+		expect(
+			parseEntityId("https://www.wikidata.org/wiki/Lexeme:L7-F1"),
+		).toBe("L7-F1");
+		expect(
+			parseEntityId(
+				"https://commons.wikimedia.org/entity/M1234",
+				COMMONS_SOURCE,
+			),
+		).toBe("M1234");
+	});
+
+	test("accepts mobile, scheme-less and secure entity URLs", () => {
+		expect(parseEntityId("https://m.wikidata.org/wiki/Q42#P31")).toBe(
+			"Q42",
+		);
+		expect(parseEntityId("wikidata.org/entity/Q42")).toBe("Q42");
+		expect(parseEntityId("www.wikidata.org/entity/Q42")).toBe("Q42");
+		expect(parseEntityId("https://www.wikidata.org/entity/Q42")).toBe(
+			"Q42",
+		);
+		expect(
+			parseEntityId(
+				"https://www.wikidata.org/wiki/Special:EntityPage/Q42",
+			),
+		).toBe("Q42");
+	});
+
+	test("rejects values that are not entity IDs", () => {
+		expect(parseEntityId("Douglas Adams")).toBeNull();
+		expect(parseEntityId("https://example.org/wiki/Q42")).toBeNull();
+	});
+});
+
+describe("parseEntityReference", () => {
+	test("recognises Wikipedia articles", () => {
+		expect(
+			parseEntityReference(
+				"https://en.m.wikipedia.org/wiki/Dune_(novel)?oldid=1",
+			),
+		).toEqual({ type: "wikipedia", lang: "en", title: "Dune (novel)" });
+	});
+
+	test("recognises external identifiers", () => {
+		expect(parseEntityReference("ISBN 978-0-441-17271-9")).toEqual({
+			type: "statement",
+			property: "P212",
+			values: ["978-0-441-17271-9", "9780441172719"],
+		});
+		expect(parseEntityReference("0441172717")).toEqual({
+			type: "statement",
+			property: "P957",
+			values: ["0441172717"],
+		});
+		expect(
+			parseEntityReference("https://doi.org/10.1038/nphys1170"),
+		).toEqual({
+			type: "statement",
+			property: "P356",
+			values: ["10.1038/NPHYS1170"],
+		});
+		expect(
+			parseEntityReference("https://orcid.org/0000-0002-1825-009x"),
+		).toEqual({
+			type: "statement",
+			property: "P496",
+			values: ["0000-0002-1825-009X"],
+		});
+		expect(
+			parseEntityReference("https://www.imdb.com/title/tt0087182/"),
+		).toEqual({
+			type: "statement",
+			property: "P345",
+			values: ["tt0087182"],
+		});
+		expect(parseEntityReference("p214 = 113230702")).toEqual({
+			type: "statement",
+			property: "P214",
+			values: ["113230702"],
+		});
+	});
+
+	test("only looks up entity IDs outside Wikidata", () => {
+		expect(
+			parseEntityReference("ISBN 978-0-441-17271-9", COMMONS_SOURCE),
+		).toBeNull();
+		expect(parseEntityReference("M1234", COMMONS_SOURCE)).toEqual({
+			type: "id",
+			id: "M1234",
+		});
+		expect(parseEntityReference("Dune", WIKIDATA_SOURCE)).toBeNull();
+	});
+});
+
+describe("Entity.buildLink", () => {
+	const vars = { id: "Q42", label: "Douglas Adams", lang: "en" };
+
+	test("fills in the full and numeric entity ID", () => {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.buildLink("db/${id}", vars)).toBe("db/42");
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.buildLink("db/${qid}", vars)).toBe("db/Q42");
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.buildLink("db/${numericId}", vars)).toBe("db/42");
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.buildLink("${lang}/${label}", vars)).toBe(
+			"en/Douglas Adams",
+		);
+	});
+
+	test("supports display text and replaces unsafe characters", () => {
+		expect(
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+			Entity.buildLink("db/${qid}|${label}", {
+				id: "Q1",
+				label: "AC/DC: Live",
+			}),
+		).toBe("db/Q1|AC/DC: Live");
+		expect(
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+			Entity.buildLink("db/${label}", { id: "Q1", label: "AC/DC: Live" }),
+		).toBe("db/AC_DC_ Live");
+		expect(Entity.linkTarget("db/Q1|AC/DC")).toBe("db/Q1");
+	});
+
+	test("leaves unknown placeholders untouched", () => {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.buildLink("db/${foo}", vars)).toBe("db/${foo}");
+	});
+});
+
+describe("Entity.parseLink", () => {
+	test("recovers the values of a link built from the template", () => {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		const template = "db/${qid}|${label}";
+		expect(
+			Entity.parseLink(
+				template,
+				Entity.buildLink(template, {
+					id: "Q42",
+					label: "Douglas Adams",
+				}),
+			),
+		).toEqual({ id: "Q42", label: "Douglas Adams" });
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.parseLink("db/${numericId}", "db/42")).toEqual({
+			id: "Q42",
+		});
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.parseLink("db/${id}", "db/42")).toEqual({ id: "Q42" });
+	});
+
+	test("rejects links that do not follow the template", () => {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(
+			Entity.parseLink("db/${label}", "people/Douglas Adams"),
+		).toBeNull();
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: intentional
+		expect(Entity.parseLink("db/${qid}", "db/Douglas Adams")).toBeNull();
+	});
+});
+
+describe("Entity.termProperties", () => {
+	const terms = {
+		labels: {
+			mul: "Douglas Adams",
+			de: "Douglas Adams",
+			fr: "Douglas Adams",
+		},
+		descriptions: {
+			en: "English author and humourist",
+			de: "britischer Schriftsteller",
+		},
+		aliases: { en: ["Douglas Noel Adams", "DNA"], de: ["DNA"] },
+	};
+
+	test("writes the primary description and all aliases", () => {
+		expect(Entity.termProperties(terms, "mul,en")).toEqual({
+			description: ["English author and humourist"],
+			aliases: ["Douglas Noel Adams", "DNA"],
+		});
+	});
+
+	test("adds labels and descriptions in further languages", () => {
+		expect(
+			Entity.termProperties(
+				{ ...terms, labels: { ...terms.labels, de: "D. Adams" } },
+				"en,de",
+			),
+		).toEqual({
+			description: ["English author and humourist"],
+			aliases: ["Douglas Noel Adams", "DNA", "D. Adams"],
+			label_de: ["D. Adams"],
+			description_de: ["britischer Schriftsteller"],
+		});
+	});
+});
+
+describe("Entity.companionParent", () => {
+	const keys = ["spouse", "height", "place of birth", "place"];
+
+	test("finds the property of qualifier and unit keys", () => {
+		const opts = { spaceReplacement: "" };
+		expect(Entity.companionParent("spouse (start time)", keys, opts)).toBe(
+			"spouse",
+		);
+		expect(Entity.companionParent("height unit", keys, opts)).toBe(
+			"height",
+		);
+		expect(Entity.companionParent("place of birth", keys, opts)).toBeNull();
+	});
+
+	test("follows the space replacement", () => {
+		const opts = { spaceReplacement: "_" };
+		expect(
+			Entity.companionParent(
+				"place_of_birth_unit",
+				["place_of_birth"],
+				opts,
+			),
+		).toBe("place_of_birth");
+		expect(Entity.companionParent("spouse_", ["spouse"], opts)).toBeNull();
+	});
+});
+
+describe("Entity.searchPage", () => {
+	const requests: URLSearchParams[] = [];
+	const server = Bun.serve({
+		port: 0,
+		fetch(request) {
+			const params = new URL(request.url).searchParams;
+			requests.push(params);
+			if (params.get("action") === "wbgetentities") {
+				return Response.json({
+					entities: {
+						Q190192: {
+							labels: { en: { value: "Dune" } },
+							descriptions: { en: { value: "novel" } },
+						},
+					},
+				});
+			}
+			if (params.get("list") === "search") {
+				return Response.json({
+					query: { search: [{ title: "Q190192", pageid: 1 }] },
+					continue: { sroffset: 20 },
+				});
+			}
+			return Response.json({
+				search: [{ id: "P577", label: "publication date" }],
+				"search-continue": params.get("language") === "de" ? 7 : 10,
+			});
+		},
+	});
+	const source = {
+		...WIKIDATA_SOURCE,
+		apiUrl: `http://localhost:${server.port}/w/api.php`,
+	};
+
+	afterAll(() => server.stop(true));
+
+	test("searches other entity types from an offset", async () => {
+		requests.length = 0;
+		const page = await Entity.searchPage("publication", {
+			language: "en",
+			source,
+			type: "property",
+			offset: 10,
+		});
+		expect(page.results.map((entity) => entity.id)).toEqual(["P577"]);
+		expect(page.next).toBe(10);
+		expect(requests[0].get("type")).toBe("property");
+		expect(requests[0].get("continue")).toBe("10");
+	});
+
+	test("continues from the language with the fewest results", async () => {
+		const page = await Entity.searchPage("publication", {
+			language: "en,de",
+			source,
+			type: "property",
+		});
+		expect(page.results.map((entity) => entity.id)).toEqual(["P577"]);
+		expect(page.next).toBe(7);
+	});
+
+	test("reads file searches as MediaInfo entities", async () => {
+		const page = await Entity.searchPage("dune", {
+			language: "en",
+			source,
+			type: "mediainfo",
+		});
+		expect(page.results.map((entity) => entity.id)).toEqual(["M1"]);
+	});
+
+	test("filters by class and fetches the labels", async () => {
+		requests.length = 0;
+		const page = await Entity.searchPage("dune", {
+			language: "en,de",
+			source,
+			instanceOf: "Q7725634",
+		});
+		expect(page.results).toEqual([new Entity("Q190192", "Dune", "novel")]);
+		expect(page.next).toBe(20);
+		expect(requests[0].get("srsearch")).toBe(
+			"dune haswbstatement:P31=Q7725634",
+		);
+		expect(requests).toHaveLength(2);
+	});
+});
+
+describe("rankSearchResults", () => {
+	const result = (id: string, type: string, text: string) => ({
+		id,
+		match: { type, text },
+	});
+
+	test("ranks results found in several languages first", () => {
+		const ranked = rankSearchResults("adams", [
+			[
+				result("Q1", "label", "Adams family"),
+				result("Q42", "label", "Adams"),
+			],
+			[
+				result("Q42", "label", "Adams"),
+				result("Q2", "label", "Adamsberg"),
+			],
+		]);
+		expect(ranked.map((r) => r.id)).toEqual(["Q42", "Q1", "Q2"]);
+	});
+
+	test("prefers exact matches and labels over aliases", () => {
+		const ranked = rankSearchResults("Zürich", [
+			[
+				result("Q1", "alias", "Zurich city"),
+				result("Q2", "label", "Zurich Airport"),
+				result("Q72", "label", "Zurich"),
+			],
+		]);
+		expect(ranked.map((r) => r.id)).toEqual(["Q72", "Q2", "Q1"]);
+	});
+});
+
+describe("Entity.getPropertiesMany with an endpoint down", () => {
+	const server = Bun.serve({
+		port: 0,
+		fetch(request) {
+			if (new URL(request.url).pathname === "/down") {
+				return new Response("unavailable", { status: 503 });
+			}
+			const query = new URL(request.url).searchParams.get("query") ?? "";
+			return Response.json({
+				results: {
+					bindings: query.includes("entity/Q42>")
+						? [
+								{
+									item: {
+										value: "http://www.wikidata.org/entity/Q42",
+									},
+									property: {
+										value: "http://www.wikidata.org/entity/P1559",
+									},
+									propertyLabel: {
+										value: "name in native language",
+									},
+									value: { value: "Douglas Adams" },
+									valueType: {
+										value: "http://www.w3.org/2001/XMLSchema#string",
+									},
+								},
+							]
+						: [],
+				},
+			});
+		},
+	});
+	const endpoint = (name: string, path: string): SparqlEndpoint => ({
+		name,
+		url: `http://localhost:${server.port}${path}`,
+		dialect: "blazegraph",
+		enabled: true,
+	});
+
+	beforeAll(() => configureRequests({ maxRetries: 0 }));
+	afterAll(() => {
+		configureRequests(DEFAULT_REQUEST_OPTIONS);
+		server.stop(true);
+	});
+
+	test("returns what the other endpoints found, with diagnostics", async () => {
+		const result = await Entity.getPropertiesMany(["Q42", "Q1"], {
+			...DEFAULT_OPTIONS,
+			endpoints: [endpoint("Up", "/up"), endpoint("Down", "/down")],
+		});
+		expect(result.properties.Q42["name in native language"]).toEqual([
+			"Douglas Adams",
+		]);
+		expect(result.notFound).toEqual(["Q1"]);
+		expect(result.diagnostics.map((d) => [d.name, d.rows])).toEqual([
+			["Up", 1],
+			["Down", 0],
+		]);
+		expect(describeEndpointFailures(result.diagnostics)).toContain(
+			"Down failed",
+		);
+	});
+
+	test("fails when no endpoint answers", async () => {
+		await expect(
+			Entity.getPropertiesMany(["Q42"], {
+				...DEFAULT_OPTIONS,
+				endpoints: [endpoint("Down", "/down")],
+			}),
+		).rejects.toThrow("HTTP 503");
+	});
+});
+
+describe("Entity.getPropertiesMany against a stand-in store", () => {
+	// Each test sets the rows the store answers its query with.
+	let answer: (query: string) => object[] = () => [];
+	const server = Bun.serve({
+		port: 0,
+		fetch(request) {
+			const query = new URL(request.url).searchParams.get("query") ?? "";
+			return Response.json({ results: { bindings: answer(query) } });
+		},
+	});
+	const getProperties = (opts: Partial<GetPropertiesOptions>) =>
+		Entity.getPropertiesMany(["Q42"], {
+			...DEFAULT_OPTIONS,
+			...opts,
+			endpoints: [
+				{
+					name: "Stand-in",
+					url: `http://localhost:${server.port}/sparql`,
+					dialect: "blazegraph",
+					enabled: true,
+				},
+			],
+		});
+	const statement = (property: string, label: string, value: string) => ({
+		item: { value: "http://www.wikidata.org/entity/Q42" },
+		statement: {
+			value: `http://www.wikidata.org/entity/statement/Q42-${property}`,
+		},
+		property: { value: `http://www.wikidata.org/entity/${property}` },
+		propertyLabel: { value: label },
+		value: { value },
+		valueType: { value: "http://www.w3.org/2001/XMLSchema#decimal" },
+	});
+
+	beforeAll(() => configureRequests({ maxRetries: 0 }));
+	afterAll(() => {
+		configureRequests(DEFAULT_REQUEST_OPTIONS);
+		server.stop(true);
+	});
+
+	test("keeps the unit of quantities without a normalized value", async () => {
+		// A quantity in minutes has no SI conversion, so it only has a value
+		// node and no normalized one.
+		answer = (query) => [
+			{
+				...statement("P2047", "duration", "120"),
+				...(/COALESCE\([^)]*\?valueUnit\) AS \?unit/.test(query)
+					? {
+							quantityAmount: { value: "120" },
+							unit: {
+								value: "http://www.wikidata.org/entity/Q7727",
+							},
+							unitSymbol: { value: "min" },
+						}
+					: {}),
+			},
+		];
+		const { properties } = await getProperties({
+			unitFormat: "suffix",
+			normalizeUnits: true,
+		});
+		expect(properties.Q42.duration).toEqual(["120 min"]);
+	});
+
+	test("joins companion keys with the space replacement", async () => {
+		answer = () => [
+			{
+				...statement("P1082", "population", "2000"),
+				quantityAmount: { value: "2000" },
+				unit: { value: "http://www.wikidata.org/entity/Q11229" },
+				unitSymbol: { value: "%" },
+				qualifierLabel: { value: "point in time" },
+				qualifierValue: { value: "2020" },
+				qualifierValueType: {
+					value: "http://www.w3.org/2001/XMLSchema#string",
+				},
+			},
+		];
+		const { properties } = await getProperties({
+			unitFormat: "key",
+			qualifierFormat: "keys",
+			spaceReplacement: "_",
+		});
+		expect(properties.Q42.population_unit).toEqual(["%"]);
+		expect(properties.Q42.population_point_in_time).toEqual(["2020"]);
+	});
+
+	test("imports qualifiers for the properties with the given IDs", async () => {
+		const qualifier = {
+			qualifierLabel: { value: "point in time" },
+			qualifierValue: { value: "2020" },
+			qualifierValueType: {
+				value: "http://www.w3.org/2001/XMLSchema#string",
+			},
+		};
+		answer = () => [
+			{ ...statement("P1082", "population", "2000"), ...qualifier },
+			{ ...statement("P2044", "elevation", "12"), ...qualifier },
+		];
+		const { properties } = await getProperties({
+			qualifierFormat: "keys",
+			qualifierProperties: ["P1082"],
+		});
+		expect(properties.Q42["population (point in time)"]).toEqual(["2020"]);
+		expect(properties.Q42["elevation (point in time)"]).toBeUndefined();
+	});
+});
+
+describe("mergeDiagnostics", () => {
+	test("adds up rows and keeps the first error", () => {
+		const up = { name: "Up", url: "up", rows: 2, error: null };
+		const down = { name: "Down", url: "down", rows: 0, error: "timeout" };
+		expect(
+			mergeDiagnostics(
+				[up, down],
+				[
+					{ ...up, rows: 3 },
+					{ ...down, error: "rate limited" },
+				],
+			),
+		).toEqual([
+			{ ...up, rows: 5 },
+			{ ...down, error: "timeout" },
+		]);
+		expect(describeEndpointFailures([up])).toBeNull();
+	});
+});
+
+describe("formatTime", () => {
+	const GREGORIAN = "http://www.wikidata.org/entity/Q1985727";
+	const JULIAN = "http://www.wikidata.org/entity/Q1985786";
+
+	test("keeps raw timestamps untouched", () => {
+		expect(formatTime("1952-03-11T00:00:00Z", 11, GREGORIAN, "raw")).toBe(
+			"1952-03-11T00:00:00Z",
+		);
+	});
+
+	test("drops components beyond the precision", () => {
+		expect(
+			formatTime("1952-03-11T00:00:00Z", 11, GREGORIAN, "precision"),
+		).toBe("1952-03-11");
+		expect(
+			formatTime("1952-03-01T00:00:00Z", 10, GREGORIAN, "precision"),
+		).toBe("1952-03");
+		expect(
+			formatTime("1503-01-01T00:00:00Z", 9, GREGORIAN, "precision"),
+		).toBe("1503");
+		expect(
+			formatTime("1955-01-01T00:00:00Z", 8, GREGORIAN, "precision"),
+		).toBe("1950s");
+		expect(
+			formatTime("1503-01-01T00:00:00Z", 7, GREGORIAN, "precision"),
+		).toBe("16th century");
+	});
+
+	test("writes full dates for date properties", () => {
+		expect(formatTime("1503-01-01T00:00:00Z", 9, GREGORIAN, "date")).toBe(
+			"1503-01-01",
+		);
+		expect(formatTime("-0043-03-15T00:00:00Z", 11, JULIAN, "date")).toBe(
+			"-0043-03-15",
+		);
+	});
+
+	test("represents BCE and Julian dates", () => {
+		expect(
+			formatTime("-0043-01-01T00:00:00Z", 9, JULIAN, "precision"),
+		).toBe("44 BCE");
+		expect(
+			formatTime("1564-05-03T00:00:00Z", 11, JULIAN, "precision"),
+		).toBe("1564-04-23 (Julian)");
+	});
+});
@@ -1,11 +1,84 @@
-import { requestUrl } from "obsidian";
+import { MalformedResponseError, requestJson } from "./request";
 
-export type Value = string | number | boolean;
+export type Scalar = string | number | boolean;
+/** A statement value together with its qualifiers, keyed by qualifier label.
+ *  The statement value itself is stored under `value`. */
+export type QualifiedValue = { [key: string]: Scalar | Scalar[] };
+export type Value = Scalar | QualifiedValue;
 export type Properties = { [key: string]: Array<Value> };
 
+/**
+ * How statement qualifiers (start time, end time, point in time, ...) are
+ * imported:
+ *
+ * - `none`: only the statement values, as plain truthy claims.
+ * - `nested`: each value becomes an object holding the value and qualifiers.
+ * - `keys`: qualifiers go into companion keys such as `spouse (start time)`,
+ *   with one entry per value of the property.
+ */
+export type QualifierFormat = "none" | "nested" | "keys";
+
+/**
+ * Which statements to import, by rank:
+ *
+ * - `preferred`: only preferred-rank statements.
+ * - `best`: preferred-rank statements, or normal-rank ones where a property
+ *   has no preferred statement. This is what truthy (`wdt:`) claims contain.
+ * - `nondeprecated`: preferred- and normal-rank statements.
+ * - `all`: every statement, including deprecated ones.
+ */
+export type RankPolicy = "preferred" | "best" | "nondeprecated" | "all";
+
+/**
+ * How the unit of quantity values is imported:
+ *
+ * - `none`: bare amounts, e.g. `1.96`.
+ * - `suffix`: amount and unit symbol as a string, e.g. `"1.96 m"`.
+ * - `object`: an object such as `{ amount: 1.96, unit: "m" }`.
+ * - `key`: bare amounts, with units in a companion key such as `height unit`.
+ */
+export type UnitFormat = "none" | "suffix" | "object" | "key";
+
+/**
+ * How time values are imported:
+ *
+ * - `raw`: the `xsd:dateTime` string, e.g. `1503-01-01T00:00:00Z`.
+ * - `precision`: only as precise as Wikidata knows the date, e.g. `1503`,
+ *   `1952-03`, `1952-03-11`, `1950s` or `16th century`.
+ * - `date`: always a full `YYYY-MM-DD` date, as Obsidian's date property type
+ *   and Dataview expect.
+ */
+export type DateFormat = "raw" | "precision" | "date";
+
+/** A search result as the search API returns it. */
+export interface SearchResult {
+	id: string;
+	label?: string;
+	description?: string;
+	/** What the search matched: a label, an alias or the ID itself. */
+	match?: { type: string; language?: string; text?: string };
+}
+
 export interface SearchResponse {
-	search: Entity[];
+	search: SearchResult[];
 	success: number;
+	/** Offset of the next page of results, if there is one. */
+	"search-continue"?: number;
+}
+
+/** One page of search results. */
+export interface SearchPage {
+	results: Entity[];
+	/** Offset to pass for the next page, or null if this was the last. */
+	next: number | null;
+}
+
+/** What a search result is, shown next to its label. */
+export interface SearchDetails {
+	/** Labels of the classes the entity is an instance of (P31). */
+	types: string[];
+	/** The entity's image (P18), as a Commons Special:FilePath URL. */
+	image: string | null;
 }
 
 export interface GetPropertiesOptions {
@@ -16,10 +89,180 @@ export interface GetPropertiesOptions {
 	ignorePropertiesWithTimeRanges: boolean;
 	internalLinkPrefix: string;
 	spaceReplacement: string;
+	/** Endpoints to query; disabled ones are skipped. Defaults to
+	 *  DEFAULT_SPARQL_ENDPOINTS. */
+	endpoints?: SparqlEndpoint[];
+	/** Wikibase instance the entities belong to. Defaults to WIKIDATA_SOURCE. */
+	source?: WikibaseSource;
+	/** Defaults to `none`. Any other format queries full statements, in which
+	 *  case `ignorePropertiesWithTimeRanges` no longer applies. */
+	qualifierFormat?: QualifierFormat;
+	/** IDs of the properties to import qualifiers for, such as `P26`. Keys
+	 *  are still matched for older settings. Empty means all properties. */
+	qualifierProperties?: string[];
+	/** Defaults to `best`. Any other policy queries full statements. */
+	rankPolicy?: RankPolicy;
+	/** Defaults to `none`. Any other format queries full statements. */
+	unitFormat?: UnitFormat;
+	/** Convert quantities to SI units where Wikidata knows how to. Only
+	 *  applies when `unitFormat` is not `none`. */
+	normalizeUnits?: boolean;
+	/** Defaults to `raw`. Any other format queries full statements. */
+	dateFormat?: DateFormat;
+	/** Frontmatter keys by property ID (e.g. `P569` → `born`), used instead of
+	 *  the localized property label. Several properties may map to the same
+	 *  key, in which case their values are merged. */
+	propertyMappings?: { [propertyId: string]: string };
+	/** Link target for an entity that already has a note, or null to build
+	 *  one from `internalLinkPrefix`. */
+	resolveLink?: (entityId: string) => string | null;
+	/** Also return the entities' labels, descriptions and aliases, as
+	 *  described by Entity.termProperties. */
+	importTerms?: boolean;
+	/** Whether responses may come from the request cache. Defaults to true;
+	 *  turn it off where the values must be current. */
+	cache?: boolean;
+}
+
+export interface GetPropertiesManyOptions extends GetPropertiesOptions {
+	/** Maximum number of entities per SPARQL query. Defaults to BATCH_SIZE. */
+	chunkSize?: number;
+}
+
+/** Result of Entity.getPropertiesMany. */
+export interface BatchProperties {
+	/** Properties keyed by entity ID, for every entity that was found. */
+	properties: { [id: string]: Properties };
+	/** Property IDs (e.g. P569) keyed by entity ID, then frontmatter key.
+	 *  Keys that several properties are mapped to are left out. */
+	propertyIds: { [id: string]: { [key: string]: string } };
+	/** Entities linked to by entity-valued properties, keyed by entity ID,
+	 *  then frontmatter key. */
+	links: { [id: string]: { [key: string]: EntityLink[] } };
+	/** IDs for which no endpoint that answered returned any rows. */
+	notFound: string[];
+	/** How each endpoint fared. Failed endpoints are skipped, so when one
+	 *  failed the properties may be incomplete. */
+	diagnostics: EndpointDiagnostic[];
+}
+
+/** How one SPARQL endpoint fared in answering a set of queries. */
+export interface EndpointDiagnostic {
+	name: string;
+	url: string;
+	/** Number of result rows it returned. */
+	rows: number;
+	/** Why it failed, if it did. */
+	error: string | null;
+}
+
+/** What the placeholders of a link template stand for. */
+export interface LinkVariables {
+	/** The entity ID, e.g. Q42. */
+	id: string;
+	label?: string;
+	description?: string;
+	/** Language code the label is meant to be in. */
+	lang?: string;
+}
+
+/** An entity-valued property value. */
+export interface EntityLink {
+	id: string;
+	label: string;
+	/** The link target the value was written as, e.g. `db/human`, without
+	 *  any display text. */
+	path: string;
+}
+
+export type SparqlDialectName = "blazegraph" | "qlever";
+
+/** The ways in which SPARQL endpoints differ in what they accept. */
+export interface SparqlDialect {
+	/** Supports the wikibase:label SERVICE. If not, labels are fetched via
+	 *  rdfs:label with explicit language filters. */
+	labelService: boolean;
+	/** Accepts `&format=json`. If not, the response format is negotiated via
+	 *  the Accept header only. */
+	formatParam: boolean;
+	/** Injects the Wikibase prefixes implicitly. If not, the source's PREFIX
+	 *  block is prepended to every query. */
+	implicitPrefixes: boolean;
+}
+
+export interface SparqlEndpoint {
+	name: string;
+	url: string;
+	dialect: SparqlDialectName;
+	enabled: boolean;
+}
+
+export type WikibaseEntityType = "item" | "property" | "lexeme" | "mediainfo";
+
+/** Where entities come from: a Wikidata-like Wikibase installation. */
+export interface WikibaseSource {
+	name: string;
+	/** MediaWiki action API used for searching. */
+	apiUrl: string;
+	/** Base URL of entity pages, used to recognise entity URLs in frontmatter. */
+	pageUrl: string;
+	/** Concept URI namespace entities are identified by in RDF. */
+	entityUri: string;
+	/** Entity type searched for when importing new entities. */
+	entityType: WikibaseEntityType;
+	/** PREFIX block prepended for endpoints that do not inject prefixes. */
+	prefixes: string;
 }
 
 export interface SearchOptions {
 	language: string;
+	/** Wikibase instance to search. Defaults to WIKIDATA_SOURCE. */
+	source?: WikibaseSource;
+	/** Entity type to search for instead of the source's own. */
+	type?: WikibaseEntityType;
+	/** Only find items that are an instance (P31) of this class. */
+	instanceOf?: string;
+	/** Where the page starts, from a previous page's `next`. */
+	offset?: number;
+	/** Cancels the search, which then rejects with RequestCancelledError. */
+	signal?: AbortSignal;
+}
+
+/** Labels and other terms of an entity, in the first configured language
+ *  that has them. */
+export interface EntityTerms {
+	label: string | null;
+	description: string | null;
+	aliases: string[];
+	/** Page titles keyed by site, e.g. `enwiki`. */
+	sitelinks: { [site: string]: string };
+}
+
+/** An entity's labels, descriptions and aliases, keyed by language code. */
+export interface MultilingualTerms {
+	labels: { [lang: string]: string };
+	descriptions: { [lang: string]: string };
+	aliases: { [lang: string]: string[] };
+}
+
+/** A response previously stored in a RequestCache. */
+export interface CachedResponse {
+	value: unknown;
+	/** True once the entry has outlived the cache's TTL. */
+	stale: boolean;
+}
+
+/**
+ * Storage for raw SPARQL bindings and search responses, keyed on the request.
+ * Installed with setRequestCache; without one every call hits the network.
+ */
+export interface RequestCache {
+	get(key: string): CachedResponse | undefined;
+	set(key: string, value: unknown): void;
+	/** Drop the entries whose key `matches`. */
+	invalidate(matches: (key: string) => boolean): void;
+	/** Whether stale entries may be returned when the request itself fails. */
+	readonly serveStaleOnError: boolean;
 }
 
 export class EntityNotFoundError extends Error {
@@ -33,35 +276,84 @@ export class EntityNotFoundError extends Error {
 // Endpoints
 // ---------------------------------------------------------------------------
 
+export const SPARQL_DIALECTS: Record<SparqlDialectName, SparqlDialect> = {
+	blazegraph: {
+		labelService: true,
+		formatParam: true,
+		implicitPrefixes: true,
+	},
+	qlever: {
+		labelService: false,
+		formatParam: false,
+		implicitPrefixes: false,
+	},
+};
+
 /** Wikidata Blazegraph endpoint. Following the graph split it no longer
  *  serves scholarly articles (instance of Q13442814 and related types).
  *  @see https://www.wikidata.org/wiki/Wikidata:SPARQL_query_service/WDQS_graph_split */
 const WIKIDATA_SPARQL = "https://query.wikidata.org/sparql";
 
 /** QLever Wikidata mirror — third-party full graph, including scholarly items.
- *  Differences from Blazegraph:
- *  - Does NOT support the wikibase:label SERVICE; labels fetched via rdfs:label.
- *  - Does NOT accept &format=json; format negotiated via Accept header only.
- *  - Requires explicit PREFIX declarations (Blazegraph injects them implicitly). */
+ *  Differences from Blazegraph are described by SPARQL_DIALECTS.qlever. */
 const QLEVER_SPARQL = "https://qlever.dev/api/wikidata";
 
+export const DEFAULT_SPARQL_ENDPOINTS: SparqlEndpoint[] = [
+	{
+		name: "Wikidata Query Service",
+		url: WIKIDATA_SPARQL,
+		dialect: "blazegraph",
+		enabled: true,
+	},
+	{
+		name: "QLever",
+		url: QLEVER_SPARQL,
+		dialect: "qlever",
+		enabled: true,
+	},
+];
+
+/** Number of entities fetched per VALUES query by getPropertiesMany. Large
+ *  enough to keep request counts down, small enough to stay well clear of URL
+ *  length limits and query timeouts on heavy entities. */
+const BATCH_SIZE = 25;
+
+/** Number of entities fetched per wbgetentities request, the API's limit. */
+const TERMS_BATCH_SIZE = 50;
+
+/** Number of results on a page of search results. */
+const SEARCH_LIMIT = 10;
+
+/** Namespaces of entity pages on Wikidata, searched with `list=search`. */
+const ENTITY_NAMESPACES: Record<WikibaseEntityType, number> = {
+	item: 0,
+	property: 120,
+	lexeme: 146,
+	mediainfo: 6,
+};
+
 // ---------------------------------------------------------------------------
-// Prefixes (QLever only — Blazegraph injects these automatically)
+// Prefixes (for endpoints that do not inject these implicitly)
 // ---------------------------------------------------------------------------
 
-const WIKIDATA_PREFIXES = `\
-PREFIX wd: <http://www.wikidata.org/entity/>
-PREFIX wdt: <http://www.wikidata.org/prop/direct/>
+/**
+ * Build the standard PREFIX block of a Wikibase installation whose concept
+ * URIs live under `conceptBase` (e.g. `http://www.wikidata.org/`).
+ */
+export function buildWikibasePrefixes(conceptBase: string): string {
+	return `\
+PREFIX wd: <${conceptBase}entity/>
+PREFIX wdt: <${conceptBase}prop/direct/>
 PREFIX wikibase: <http://wikiba.se/ontology#>
-PREFIX p: <http://www.wikidata.org/prop/>
-PREFIX ps: <http://www.wikidata.org/prop/statement/>
-PREFIX psn: <http://www.wikidata.org/prop/statement/value-normalized/>
-PREFIX pq: <http://www.wikidata.org/prop/qualifier/>
-PREFIX pqn: <http://www.wikidata.org/prop/qualifier/value-normalized/>
-PREFIX pr: <http://www.wikidata.org/prop/reference/>
-PREFIX prn: <http://www.wikidata.org/prop/reference/value-normalized/>
-PREFIX wdref: <http://www.wikidata.org/reference/>
-PREFIX wdv: <http://www.wikidata.org/value/>
+PREFIX p: <${conceptBase}prop/>
+PREFIX ps: <${conceptBase}prop/statement/>
+PREFIX psn: <${conceptBase}prop/statement/value-normalized/>
+PREFIX pq: <${conceptBase}prop/qualifier/>
+PREFIX pqn: <${conceptBase}prop/qualifier/value-normalized/>
+PREFIX pr: <${conceptBase}prop/reference/>
+PREFIX prn: <${conceptBase}prop/reference/value-normalized/>
+PREFIX wdref: <${conceptBase}reference/>
+PREFIX wdv: <${conceptBase}value/>
 PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
 PREFIX schema: <http://schema.org/>
 PREFIX skos: <http://www.w3.org/2004/02/skos/core#>
@@ -69,6 +361,201 @@ PREFIX owl: <http://www.w3.org/2002/07/owl#>
 PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
 PREFIX bd: <http://www.bigdata.com/rdf#>
 `;
+}
+
+const WIKIDATA_PREFIXES = buildWikibasePrefixes("http://www.wikidata.org/");
+
+// ---------------------------------------------------------------------------
+// Wikibase sources
+// ---------------------------------------------------------------------------
+
+export const WIKIDATA_SOURCE: WikibaseSource = {
+	name: "Wikidata",
+	apiUrl: "https://www.wikidata.org/w/api.php",
+	pageUrl: "https://www.wikidata.org/wiki/",
+	entityUri: "http://www.wikidata.org/entity/",
+	entityType: "item",
+	prefixes: WIKIDATA_PREFIXES,
+};
+
+/** Wikidata lexemes share the Wikidata graph; only the search type differs. */
+export const WIKIDATA_LEXEMES_SOURCE: WikibaseSource = {
+	...WIKIDATA_SOURCE,
+	name: "Wikidata Lexemes",
+	entityType: "lexeme",
+};
+
+export const WIKIBASE_SOURCES: WikibaseSource[] = [
+	WIKIDATA_SOURCE,
+	WIKIDATA_LEXEMES_SOURCE,
+];
+
+/**
+ * Matches Wikibase entity IDs: items (Q), properties (P), lexemes (L) along
+ * with their forms and senses (L1-F1, L1-S1), and Commons MediaInfo (M).
+ */
+const ENTITY_ID_PATTERN = /^[LMPQ]\d+(?:-[FS]\d+)?$/;
+
+/** Hosts the entity URLs of a source may use: its own, with or without
+ *  `www.`, and their mobile versions such as m.wikidata.org. */
+function sourceHosts(source: WikibaseSource): string[] {
+	const hosts = new Set<string>();
+	for (const base of [source.pageUrl, source.entityUri]) {
+		try {
+			const { host } = new URL(base);
+			hosts.add(host);
+			hosts.add(host.replace(/^www\./, ""));
+			hosts.add(host.replace(/^(?:www\.)?/, "m."));
+		} catch {
+			// Not a URL; entity URLs of this source are not recognised.
+		}
+	}
+	return Array.from(hosts);
+}
+
+/** Parse a URL, also when it is written without a scheme. */
+function looseUrl(value: string): URL | null {
+	const url = /^https?:\/\//i.test(value)
+		? value
+		: /^[\w-]+(?:\.[\w-]+)+\//.test(value)
+			? `https://${value}`
+			: null;
+	if (!url) return null;
+	try {
+		return new URL(url);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Extract an entity ID from a bare ID, an entity page URL (including
+ * namespaced pages like `Lexeme:L1` and the mobile site) or a concept URI of
+ * the given source. The scheme may be left out. Returns null if `value` does
+ * not identify an entity.
+ */
+export function parseEntityId(
+	value: string,
+	source: WikibaseSource = WIKIDATA_SOURCE,
+): string | null {
+	let id = value.trim();
+	const url = looseUrl(id);
+	const base = [source.pageUrl, source.entityUri].find((b) =>
+		id.startsWith(b),
+	);
+	if (url && sourceHosts(source).includes(url.host)) {
+		id = decodeURIComponent(url.pathname)
+			.replace(/^\/(?:wiki|entity)\//, "")
+			.replace(/^Special:EntityPage\//, "");
+	} else if (base) {
+		// Sources whose pages are not under /wiki/.
+		id = id.substring(base.length);
+	} else if (url) {
+		return null;
+	}
+	id = id.replace(/^(?:Item|Property|Lexeme):/, "");
+	return ENTITY_ID_PATTERN.test(id) ? id : null;
+}
+
+/** What a value identifies an entity by; see parseEntityReference. */
+export type EntityReference =
+	| { type: "id"; id: string }
+	| { type: "wikipedia"; lang: string; title: string }
+	/** Any of `values` of the property, as an external identifier. */
+	| { type: "statement"; property: string; values: string[] };
+
+/** External identifiers recognised by their format, and the property they
+ *  are stored in. ISBNs are looked up as written and without hyphens, since
+ *  Wikidata stores them hyphenated but they are often written without. */
+const EXTERNAL_IDS: {
+	property: string;
+	pattern: RegExp;
+	values: (id: string) => string[];
+}[] = [
+	{
+		property: "P212",
+		pattern: /^(?:ISBN(?:-13)?:?\s*)?(97[89](?:[-\s]?\d){9}[-\s]?\d)$/i,
+		values: (id) => [id.replace(/\s/g, "-"), id.replace(/\D/g, "")],
+	},
+	{
+		property: "P957",
+		pattern: /^(?:ISBN(?:-10)?:?\s*)?(\d(?:[-\s]?\d){8}[-\s]?[\dX])$/i,
+		values: (id) => [
+			id.replace(/\s/g, "-").toUpperCase(),
+			id.replace(/[^\dX]/gi, "").toUpperCase(),
+		],
+	},
+	{
+		// Wikidata stores DOIs in upper case.
+		property: "P356",
+		pattern:
+			/^(?:doi:\s*|(?:https?:\/\/)?(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i,
+		values: (id) => [id.toUpperCase()],
+	},
+	{
+		property: "P496",
+		pattern:
+			/^(?:(?:https?:\/\/)?orcid\.org\/)?(\d{4}-\d{4}-\d{4}-\d{3}[\dX])$/i,
+		values: (id) => [id.toUpperCase()],
+	},
+	{
+		property: "P345",
+		pattern:
+			/^(?:(?:https?:\/\/)?(?:www\.|m\.)?imdb\.com\/(?:title|name|company)\/)?((?:tt|nm|co|ch|ev)\d{7,8})\/?(?:[?#].*)?$/,
+		values: (id) => [id],
+	},
+];
+
+/**
+ * Work out what `value` identifies an entity by: an entity ID or URL of the
+ * source, or, for Wikidata, a Wikipedia article URL, an external identifier
+ * recognised by its format (ISBN, DOI, ORCID iD or IMDb ID) or any external
+ * identifier written as `P345=tt0111161`. Returns null if it is none of
+ * these.
+ */
+export function parseEntityReference(
+	value: string,
+	source: WikibaseSource = WIKIDATA_SOURCE,
+): EntityReference | null {
+	const id = parseEntityId(value, source);
+	if (id) return { type: "id", id };
+	// Wikipedia articles and external identifiers are linked from Wikidata.
+	if (source.apiUrl !== WIKIDATA_SOURCE.apiUrl) return null;
+
+	const trimmed = value.trim();
+	const url = looseUrl(trimmed);
+	const article = url?.host.match(/^([a-z][\w-]*)\.(?:m\.)?wikipedia\.org$/);
+	if (url && article && url.pathname.startsWith("/wiki/")) {
+		return {
+			type: "wikipedia",
+			lang: article[1],
+			title: decodeURIComponent(url.pathname.substring(6)).replace(
+				/_/g,
+				" ",
+			),
+		};
+	}
+
+	const statement = trimmed.match(/^(P\d+)\s*=\s*(.+)$/i);
+	if (statement) {
+		return {
+			type: "statement",
+			property: statement[1].toUpperCase(),
+			values: [statement[2].trim()],
+		};
+	}
+	for (const { property, pattern, values } of EXTERNAL_IDS) {
+		const match = trimmed.match(pattern);
+		if (match) {
+			return {
+				type: "statement",
+				property,
+				values: Array.from(new Set(values(match[1]))),
+			};
+		}
+	}
+	return null;
+}
 
 // ---------------------------------------------------------------------------
 // Language helpers
@@ -109,18 +596,20 @@ function parseLangsForRdfs(language: string): string[] {
 /**
  * Build SPARQL that binds exactly one label using the configured language
  * order. This avoids QLever returning one result row per matching language.
+ * `predicate` may name another language-tagged property than rdfs:label.
  */
 function preferredRdfsLabel(
 	entityVariable: string,
 	labelVariable: string,
 	langs: string[],
+	predicate = "rdfs:label",
 ): string {
 	const labelCandidates = langs.map((_, i) => `${labelVariable}${i}`);
 	const optionalLabels = langs
 		.map(
 			(lang, i) => `
 				OPTIONAL {
-					${entityVariable} rdfs:label ${labelCandidates[i]} .
+					${entityVariable} ${predicate} ${labelCandidates[i]} .
 					FILTER(LANG(${labelCandidates[i]}) = "${lang}")
 				}`,
 		)
@@ -157,39 +646,482 @@ function isDate(type: string | null): boolean {
 	return type === "http://www.w3.org/2001/XMLSchema#dateTime";
 }
 
+// ---------------------------------------------------------------------------
+// Time formatting
+// ---------------------------------------------------------------------------
+
+/** wikibase:timePrecision values. */
+const PRECISION_MILLENNIUM = 6;
+const PRECISION_CENTURY = 7;
+const PRECISION_DECADE = 8;
+const PRECISION_YEAR = 9;
+const PRECISION_MONTH = 10;
+const PRECISION_DAY = 11;
+
+export const JULIAN_CALENDAR = "http://www.wikidata.org/entity/Q1985786";
+
+function pad(n: number, width: number): string {
+	return String(n).padStart(width, "0");
+}
+
+function ordinal(n: number): string {
+	const suffixes = ["th", "st", "nd", "rd"];
+	const v = n % 100;
+	return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+/**
+ * Convert a proleptic Gregorian date to the Julian calendar via its Julian
+ * day number.
+ */
+export function gregorianToJulian(
+	year: number,
+	month: number,
+	day: number,
+): [number, number, number] {
+	const a = Math.floor((14 - month) / 12);
+	const y = year + 4800 - a;
+	const m = month + 12 * a - 3;
+	const jdn =
+		day +
+		Math.floor((153 * m + 2) / 5) +
+		365 * y +
+		Math.floor(y / 4) -
+		Math.floor(y / 100) +
+		Math.floor(y / 400) -
+		32045;
+
+	const c = jdn + 32082;
+	const d = Math.floor((4 * c + 3) / 1461);
+	const e = c - Math.floor((1461 * d) / 4);
+	const n = Math.floor((5 * e + 2) / 153);
+	return [
+		d - 4800 + Math.floor(n / 10),
+		n + 3 - 12 * Math.floor(n / 10),
+		e - Math.floor((153 * n + 2) / 5) + 1,
+	];
+}
+
+/**
+ * Format an `xsd:dateTime` time value according to its Wikibase precision.
+ *
+ * Wikidata's RDF export uses astronomical year numbering (year 0 is 1 BCE)
+ * and always converts dates to the proleptic Gregorian calendar. In
+ * `precision` format BCE dates are written with a "BCE" suffix, and dates
+ * entered in the Julian calendar are converted back to it and marked as such.
+ * In `date` format they keep the signed ISO 8601 year, e.g. `-0043-03-15`.
+ *
+ * @param precision  wikibase:timePrecision, or null if unknown (treated as
+ *                   day precision).
+ * @param calendar   wikibase:timeCalendarModel URI, or null if unknown.
+ */
+export function formatTime(
+	value: string,
+	precision: number | null,
+	calendar: string | null,
+	format: DateFormat,
+): string {
+	const match = value.match(
+		/^([+-]?\d+)-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})Z$/,
+	);
+	if (format === "raw" || !match) return value;
+
+	let year = Number.parseInt(match[1]);
+	let month = Number.parseInt(match[2]);
+	let day = Number.parseInt(match[3]);
+	const p = precision ?? PRECISION_DAY;
+
+	if (format === "date") {
+		const sign = year < 0 ? "-" : "";
+		return `${sign}${pad(Math.abs(year), 4)}-${pad(p >= PRECISION_MONTH ? month : 1, 2)}-${pad(p >= PRECISION_DAY ? day : 1, 2)}`;
+	}
+
+	let suffix = "";
+	if (calendar === JULIAN_CALENDAR && p >= PRECISION_DAY) {
+		[year, month, day] = gregorianToJulian(year, month, day);
+		suffix = " (Julian)";
+	}
+
+	const bce = year <= 0;
+	const y = bce ? 1 - year : year;
+	if (bce) suffix = ` BCE${suffix}`;
+
+	if (p >= PRECISION_DAY) {
+		return `${pad(y, 4)}-${pad(month, 2)}-${pad(day, 2)}${suffix}`;
+	} else if (p === PRECISION_MONTH) {
+		return `${pad(y, 4)}-${pad(month, 2)}${suffix}`;
+	} else if (p === PRECISION_YEAR) {
+		return `${bce ? y : pad(y, 4)}${suffix}`;
+	} else if (p === PRECISION_DECADE) {
+		return `${Math.floor(y / 10) * 10}s${suffix}`;
+	} else if (p === PRECISION_CENTURY) {
+		return `${ordinal(Math.ceil(y / 100))} century${suffix}`;
+	} else if (p === PRECISION_MILLENNIUM) {
+		return `${ordinal(Math.ceil(y / 1000))} millennium${suffix}`;
+	}
+	return `${y}${suffix}`;
+}
+
+// ---------------------------------------------------------------------------
+// Request cache
+// ---------------------------------------------------------------------------
+
+let requestCache: RequestCache | null = null;
+
+export function setRequestCache(cache: RequestCache | null): void {
+	requestCache = cache;
+}
+
+/**
+ * Drop the cached responses that mention an entity, e.g. after editing it:
+ * SPARQL queries binding its concept URI and API requests for its ID.
+ */
+export function invalidateCachedEntity(
+	id: string,
+	source: WikibaseSource = WIKIDATA_SOURCE,
+): void {
+	const uri = `<${source.entityUri}${id}>`;
+	const param = new RegExp(`[=|]${id}(?:[&|]|$)`, "m");
+	requestCache?.invalidate((key) => key.includes(uri) || param.test(key));
+}
+
+/**
+ * Return a fresh cached value for `key` if there is one, otherwise run
+ * `request` and cache its result. If the request fails and the cache allows
+ * it, a stale entry is returned in place of the error.
+ */
+async function cachedRequest<T>(
+	key: string,
+	request: () => Promise<T>,
+): Promise<T> {
+	const cache = requestCache;
+	const cached = cache?.get(key);
+	if (cached && !cached.stale) {
+		return cached.value as T;
+	}
+
+	try {
+		const value = await request();
+		cache?.set(key, value);
+		return value;
+	} catch (e) {
+		if (cached && cache?.serveStaleOnError) {
+			console.warn(
+				`[wikidata-importer] Request failed, serving stale cached response:`,
+				e,
+			);
+			return cached.value as T;
+		}
+		throw e;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// API responses
+// ---------------------------------------------------------------------------
+
+/** One value in a row of SPARQL results. */
+interface SparqlTerm {
+	type: string;
+	value: string;
+	datatype?: string;
+	"xml:lang"?: string;
+}
+
+/** A row of SPARQL results, keyed by variable name. */
+type SparqlBinding = { [variable: string]: SparqlTerm | undefined };
+
+/** A label, description or alias in one language. */
+interface ApiTerm {
+	language?: string;
+	value?: string;
+}
+
+/** The parts of a `wbgetentities` response read here. */
+interface GetEntitiesResponse {
+	entities?: {
+		[id: string]: {
+			missing?: string;
+			labels?: { [lang: string]: ApiTerm };
+			descriptions?: { [lang: string]: ApiTerm };
+			aliases?: { [lang: string]: ApiTerm[] };
+			sitelinks?: { [site: string]: { title?: string } };
+		};
+	};
+}
+
+/** The parts of an action API `query` response read here. */
+interface QueryResponse {
+	query?: {
+		pages?: { pageprops?: { wikibase_item?: string } }[];
+		search?: { pageid: number; title: string }[];
+	};
+	continue?: { sroffset?: number };
+}
+
 // ---------------------------------------------------------------------------
 // SPARQL runner
 // ---------------------------------------------------------------------------
 
 /**
- * Execute a SPARQL SELECT query and return the raw result bindings.
+ * Execute a SPARQL SELECT query and return the raw result bindings, without
+ * consulting the request cache.
  *
- * @param endpoint  Full base URL of the SPARQL endpoint.
- * @param query     Complete SPARQL query string. Must include PREFIX declarations
- *                  when targeting QLever (Blazegraph injects them automatically).
- * @param qlever    When true, omits the Blazegraph-specific `&format=json`
- *                  parameter; the response format is negotiated via Accept header.
+ * @param endpoint  The endpoint to query. Its dialect decides whether the
+ *                  Blazegraph-specific `&format=json` parameter is sent.
+ * @param query     Complete SPARQL query string, including any PREFIX
+ *                  declarations the endpoint needs.
  */
-async function runSparql(
-	endpoint: string,
+async function fetchSparql(
+	endpoint: SparqlEndpoint,
 	query: string,
-	qlever = false,
-): Promise<any[]> {
-	const url = qlever
-		? `${endpoint}?query=${encodeURIComponent(query)}`
-		: `${endpoint}?query=${encodeURIComponent(query)}&format=json`;
+): Promise<SparqlBinding[]> {
+	const url = SPARQL_DIALECTS[endpoint.dialect].formatParam
+		? `${endpoint.url}?query=${encodeURIComponent(query)}&format=json`
+		: `${endpoint.url}?query=${encodeURIComponent(query)}`;
 
-	const response = await requestUrl({
+	const json = (await requestJson({
 		url,
 		headers: { Accept: "application/sparql-results+json" },
-	});
-	const bindings = response.json?.results?.bindings;
+	})) as { results?: { bindings?: SparqlBinding[] } } | null;
+	const bindings = json?.results?.bindings;
 	if (!Array.isArray(bindings)) {
-		throw new Error(`Invalid SPARQL response from ${endpoint}`);
+		throw new MalformedResponseError(
+			endpoint.url,
+			"it has no SPARQL results",
+		);
 	}
 	return bindings;
 }
 
+/**
+ * Like fetchSparql, but prepends the source's PREFIX block for endpoints that
+ * do not inject it implicitly, and is served from the request cache when
+ * possible.
+ */
+async function runSparql(
+	endpoint: SparqlEndpoint,
+	query: string,
+	source: WikibaseSource,
+	cache = true,
+): Promise<SparqlBinding[]> {
+	const fullQuery = SPARQL_DIALECTS[endpoint.dialect].implicitPrefixes
+		? query
+		: source.prefixes + query;
+	if (!cache) return fetchSparql(endpoint, fullQuery);
+	return cachedRequest(`${endpoint.url}\n${fullQuery}`, () =>
+		fetchSparql(endpoint, fullQuery),
+	);
+}
+
+/**
+ * Run a query on every endpoint, tolerating failures: the bindings of the
+ * endpoints that answered are returned together, with how each one fared.
+ * Only if none answered is the first error thrown.
+ *
+ * @param query  The query for an endpoint, which may depend on its dialect.
+ */
+async function runSparqlSettled(
+	endpoints: SparqlEndpoint[],
+	query: (endpoint: SparqlEndpoint) => string,
+	source: WikibaseSource,
+	cache = true,
+): Promise<{ bindings: SparqlBinding[]; diagnostics: EndpointDiagnostic[] }> {
+	const results = await Promise.allSettled(
+		endpoints.map((endpoint) =>
+			runSparql(endpoint, query(endpoint), source, cache),
+		),
+	);
+
+	const bindings: SparqlBinding[] = [];
+	const diagnostics: EndpointDiagnostic[] = [];
+	results.forEach((result, i) => {
+		const { name, url } = endpoints[i];
+		if (result.status === "fulfilled") {
+			bindings.push(...result.value);
+			diagnostics.push({
+				name,
+				url,
+				rows: result.value.length,
+				error: null,
+			});
+		} else {
+			console.warn(
+				`[wikidata-importer] SPARQL endpoint ${name} failed:`,
+				result.reason,
+			);
+			diagnostics.push({
+				name,
+				url,
+				rows: 0,
+				error:
+					result.reason instanceof Error
+						? result.reason.message
+						: String(result.reason),
+			});
+		}
+	});
+
+	const rejected = results.find((result) => result.status === "rejected");
+	if (rejected && diagnostics.every((d) => d.error !== null)) {
+		throw (rejected as PromiseRejectedResult).reason;
+	}
+	return { bindings, diagnostics };
+}
+
+/**
+ * Combine the diagnostics of several batches: rows are added up and the
+ * first error of each endpoint is kept.
+ */
+export function mergeDiagnostics(
+	into: EndpointDiagnostic[],
+	from: EndpointDiagnostic[],
+): EndpointDiagnostic[] {
+	const merged = into.map((d) => ({ ...d }));
+	for (const diagnostic of from) {
+		const existing = merged.find((d) => d.url === diagnostic.url);
+		if (existing) {
+			existing.rows += diagnostic.rows;
+			existing.error = existing.error ?? diagnostic.error;
+		} else {
+			merged.push({ ...diagnostic });
+		}
+	}
+	return merged;
+}
+
+/**
+ * A message naming the endpoints that failed and why, or null if none did.
+ */
+export function describeEndpointFailures(
+	diagnostics: EndpointDiagnostic[],
+): string | null {
+	const failed = diagnostics.filter((d) => d.error !== null);
+	if (failed.length === 0) return null;
+	return `${failed.map((d) => `${d.name} failed (${d.error})`).join(", ")}. Results may be incomplete.`;
+}
+
+/**
+ * Check that an endpoint answers a trivial query in its configured dialect.
+ * Resolves on success and rejects with the underlying error otherwise.
+ */
+export async function testSparqlEndpoint(
+	endpoint: SparqlEndpoint,
+): Promise<void> {
+	const bindings = await fetchSparql(
+		endpoint,
+		"SELECT ?s WHERE { ?s ?p ?o . } LIMIT 1",
+	);
+	if (bindings.length === 0) {
+		throw new Error(`${endpoint.url} returned no results`);
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+/** Weight of the first place in a list of search results; see
+ *  rankSearchResults. */
+const RANK_OFFSET = 5;
+
+/** Lower-case text without diacritics, for comparing labels with queries. */
+function foldText(text: string): string {
+	return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().trim();
+}
+
+/**
+ * Merge the results of searching in several languages into one list, most
+ * relevant first. Each list a result appears in adds 1 / (RANK_OFFSET + its
+ * place in that list), so entities found in several languages rise above
+ * those found in one. This is doubled when the matched label, alias or ID is
+ * the query itself, and reduced for aliases, which the search API would
+ * otherwise rank level with labels. Ties keep the order results were first
+ * found in.
+ */
+export function rankSearchResults(
+	query: string,
+	lists: SearchResult[][],
+): SearchResult[] {
+	const folded = foldText(query);
+	const scores = new Map<string, { result: SearchResult; score: number }>();
+	for (const list of lists) {
+		list.forEach((result, place) => {
+			const matched = result.match?.text ?? result.label ?? "";
+			const weight =
+				foldText(matched) === folded ||
+				result.match?.type === "entityId"
+					? 2
+					: result.match?.type === "alias"
+						? 0.8
+						: 1;
+			const entry = scores.get(result.id) ?? { result, score: 0 };
+			entry.score += weight / (RANK_OFFSET + place);
+			scores.set(result.id, entry);
+		});
+	}
+	return Array.from(scores.values())
+		.sort((a, b) => b.score - a.score)
+		.map((entry) => entry.result);
+}
+
+// ---------------------------------------------------------------------------
+// Links
+// ---------------------------------------------------------------------------
+
+/** Characters replaced in link targets, which must be valid file names. */
+const LINK_TARGET_UNSAFE = '*/:#?<>[]"|';
+/** Characters replaced in the display text of links. */
+const LINK_DISPLAY_UNSAFE = "[]|";
+
+// ---------------------------------------------------------------------------
+// Wikipedia
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch the plain-text introduction of a Wikipedia article, or null if it
+ * has none.
+ *
+ * @param lang   Wikipedia language edition, e.g. `en`.
+ * @param title  Article title as given by the entity's sitelink.
+ */
+export async function getWikipediaExtract(
+	lang: string,
+	title: string,
+): Promise<string | null> {
+	const url = `https://${lang}.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(title.replace(/ /g, "_"))}`;
+	const json = (await cachedRequest(url, () => requestJson(url))) as {
+		extract?: string;
+	} | null;
+	return typeof json?.extract === "string" && json.extract
+		? json.extract
+		: null;
+}
+
+/**
+ * Pick the Wikipedia article of the first configured language that has one,
+ * falling back to English. Returns null if there is none.
+ *
+ * @param sitelinks  Page titles keyed by site, as in EntityTerms.
+ * @param language   Comma-separated language codes, as in the settings.
+ */
+export function pickWikipediaArticle(
+	sitelinks: { [site: string]: string },
+	language: string,
+): { lang: string; title: string } | null {
+	const lang = language
+		.split(",")
+		.map((l) => l.trim().toLowerCase())
+		.concat("en")
+		.find((l) => sitelinks[`${l}wiki`]);
+	return lang ? { lang, title: sitelinks[`${lang}wiki`] } : null;
+}
+
+/** The URL of a Wikipedia article. */
+export function wikipediaUrl(lang: string, title: string): string {
+	return `https://${lang}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, "_"))}`;
+}
+
 // ---------------------------------------------------------------------------
 // Entity
 // ---------------------------------------------------------------------------
@@ -210,7 +1142,7 @@ export class Entity {
 	 * `label` and `description` are optional: stub items and newly created
 	 * entities may legitimately lack one or both fields.
 	 */
-	static fromJson(json: any): Entity {
+	static fromJson(json: SearchResult): Entity {
 		if (!json.id || typeof json.id !== "string") {
 			throw new Error("Invalid entity: missing id");
 		}
@@ -226,57 +1158,259 @@ export class Entity {
 	}
 
 	/**
-	 * Search Wikidata for entities matching `query`.
+	 * Search the configured Wikibase source (Wikidata by default) for entities
+	 * matching `query`, returning the first page of results.
+	 */
+	static async search(query: string, opts: SearchOptions): Promise<Entity[]> {
+		return (await Entity.searchPage(query, opts)).results;
+	}
+
+	/**
+	 * Search the configured Wikibase source for entities matching `query`,
+	 * one page at a time.
 	 *
 	 * The language setting may be a comma-separated list (e.g. "mul,en").
 	 * "mul" is kept here because the Wikidata action API accepts it and uses it
 	 * to return labels in whatever language is available — unlike SPARQL queries
 	 * where "mul" must be stripped (see parseLangs).
+	 *
+	 * With `opts.instanceOf` the search goes through CirrusSearch's
+	 * `haswbstatement`, which matches labels in any language, so only one
+	 * search is made and the labels are fetched separately.
+	 *
+	 * The languages are searched in parallel and their results merged by
+	 * relevance (see rankSearchResults). Languages whose search fails are
+	 * skipped. If all fail, the first error is thrown. The next page starts
+	 * where the language with the fewest results left off, so no language
+	 * skips matches; results already seen on earlier pages may come again
+	 * and are left for the caller to drop.
 	 */
-	static async search(query: string, opts: SearchOptions): Promise<Entity[]> {
-		if (!query || query.length === 0) return [];
+	static async searchPage(
+		query: string,
+		opts: SearchOptions,
+	): Promise<SearchPage> {
+		if (!query || query.length === 0) return { results: [], next: null };
 
 		const languages = opts.language
 			.split(",")
 			.map((l) => l.trim().toLowerCase())
 			.filter(Boolean);
+		const searchLanguages = opts.instanceOf
+			? languages.slice(0, 1)
+			: languages;
 
-		const allResults = new Map<string, Entity>();
-
-		for (const lang of languages) {
-			const url =
-				`https://www.wikidata.org/w/api.php` +
-				`?action=wbsearchentities&format=json` +
-				`&language=${lang}&uselang=${lang}` +
-				`&type=item&limit=10` +
-				`&search=${encodeURIComponent(query)}`;
-			try {
-				const response = await requestUrl(url);
-				const json: SearchResponse = response.json;
-				for (const result of json.search) {
-					if (allResults.has(result.id)) continue;
-					try {
-						allResults.set(result.id, Entity.fromJson(result));
-					} catch (e) {
-						console.warn(
-							`[wikidata-importer] Skipping invalid search result:`,
-							result,
-							e,
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const responses = await Promise.allSettled(
+			searchLanguages.map((lang) => {
+				const url = Entity.searchUrl(source, lang, query, opts);
+				return cachedRequest(url, async () => {
+					const json = Entity.parseSearchResponse(
+						opts.type ?? source.entityType,
+						await requestJson(url, undefined, opts.signal),
+					);
+					if (!json) {
+						throw new MalformedResponseError(
+							url,
+							"it has no search results",
 						);
 					}
-				}
-			} catch (e) {
+					return json;
+				});
+			}),
+		);
+
+		const lists: SearchResult[][] = [];
+		let next: number | null = null;
+		responses.forEach((response, i) => {
+			if (response.status === "rejected") {
 				console.warn(
-					`[wikidata-importer] Search failed for language "${lang}":`,
-					e,
+					`[wikidata-importer] Search failed for language "${searchLanguages[i]}":`,
+					response.reason,
 				);
+				return;
 			}
-		}
+			const more = response.value["search-continue"];
+			if (typeof more === "number") next = Math.min(next ?? more, more);
+			lists.push(response.value.search);
+		});
 
-		return Array.from(allResults.values());
-	}
+		const rejected = responses.find((r) => r.status === "rejected");
+		if (rejected && lists.length === 0) {
+			throw (rejected as PromiseRejectedResult).reason;
+		}
 
-	static replaceCharacters(
+		const results: Entity[] = [];
+		for (const result of rankSearchResults(query, lists)) {
+			try {
+				results.push(Entity.fromJson(result));
+			} catch (e) {
+				console.warn(
+					`[wikidata-importer] Skipping invalid search result:`,
+					result,
+					e,
+				);
+			}
+		}
+		if (opts.instanceOf) {
+			await Entity.addTerms(
+				results.filter((entity) => !entity.label),
+				opts,
+			);
+		}
+		return { results, next };
+	}
+
+	/** Fill in the labels and descriptions of entities found without them,
+	 *  in the first configured language that has them. */
+	private static async addTerms(entities: Entity[], opts: SearchOptions) {
+		if (entities.length === 0) return;
+		const languages = opts.language
+			.split(",")
+			.map((l) => l.trim().toLowerCase())
+			.filter(Boolean);
+		const terms = await Entity.getTermsMany(
+			entities.map((entity) => entity.id),
+			opts,
+		);
+		for (const entity of entities) {
+			const found = terms[entity.id];
+			if (!found) continue;
+			entity.label = languages
+				.map((lang) => found.labels[lang])
+				.find(Boolean);
+			entity.description = languages
+				.map((lang) => found.descriptions[lang])
+				.find(Boolean);
+		}
+	}
+
+	/**
+	 * Find the entity `value` refers to (see parseEntityReference): Wikipedia
+	 * articles are looked up through their page properties, following
+	 * redirects, and external identifiers with CirrusSearch's
+	 * `haswbstatement`. Returns null if `value` is no reference or nothing
+	 * was found.
+	 */
+	static async resolveReference(
+		value: string,
+		opts: SearchOptions,
+	): Promise<string | null> {
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const reference = parseEntityReference(value, source);
+		if (!reference) return null;
+		if (reference.type === "id") return reference.id;
+
+		if (reference.type === "wikipedia") {
+			const url =
+				`https://${reference.lang}.wikipedia.org/w/api.php` +
+				`?action=query&format=json&formatversion=2&redirects=1` +
+				`&prop=pageprops&ppprop=wikibase_item` +
+				`&titles=${encodeURIComponent(reference.title)}`;
+			const json = (await cachedRequest(url, () =>
+				requestJson(url, undefined, opts.signal),
+			)) as QueryResponse | null;
+			const id = json?.query?.pages?.[0]?.pageprops?.wikibase_item;
+			return typeof id === "string" ? id : null;
+		}
+
+		for (const candidate of reference.values) {
+			const search = `haswbstatement:"${reference.property}=${candidate.replace(/"/g, "")}"`;
+			const url =
+				`${source.apiUrl}` +
+				`?action=query&list=search&format=json&srnamespace=0&srlimit=1` +
+				`&srsearch=${encodeURIComponent(search)}`;
+			const json = (await cachedRequest(url, () =>
+				requestJson(url, undefined, opts.signal),
+			)) as QueryResponse | null;
+			const id = json?.query?.search?.[0]?.title;
+			if (typeof id === "string" && ENTITY_ID_PATTERN.test(id)) {
+				return id;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Like resolveReference, but return the entity with its label and
+	 * description, ready to be shown as a search result.
+	 */
+	static async findByReference(
+		value: string,
+		opts: SearchOptions,
+	): Promise<Entity | null> {
+		const id = await Entity.resolveReference(value, opts);
+		if (!id) return null;
+		const entity = new Entity(id);
+		await Entity.addTerms([entity], opts);
+		return entity;
+	}
+
+	/**
+	 * MediaInfo entities cannot be found with `wbsearchentities`; they are
+	 * searched as files, whose page IDs double as their M-IDs. Searches
+	 * filtered by class also go through `list=search`, to use
+	 * `haswbstatement`.
+	 */
+	private static searchUrl(
+		source: WikibaseSource,
+		lang: string,
+		query: string,
+		opts: SearchOptions,
+	): string {
+		const type = opts.type ?? source.entityType;
+		const offset = opts.offset ?? 0;
+		if (type === "mediainfo" || opts.instanceOf) {
+			const search = opts.instanceOf
+				? `${query} haswbstatement:P31=${opts.instanceOf}`
+				: query;
+			return (
+				`${source.apiUrl}` +
+				`?action=query&list=search&format=json` +
+				`&uselang=${lang}&srnamespace=${ENTITY_NAMESPACES[type]}` +
+				`&srlimit=${SEARCH_LIMIT}&sroffset=${offset}` +
+				`&srsearch=${encodeURIComponent(search)}`
+			);
+		}
+		return (
+			`${source.apiUrl}` +
+			`?action=wbsearchentities&format=json` +
+			`&language=${lang}&uselang=${lang}` +
+			`&type=${type}&limit=${SEARCH_LIMIT}` +
+			(offset > 0 ? `&continue=${offset}` : "") +
+			`&search=${encodeURIComponent(query)}`
+		);
+	}
+
+	/**
+	 * Normalise a search API response for entities of `type`, or return null
+	 * if it is invalid.
+	 */
+	private static parseSearchResponse(
+		type: WikibaseEntityType,
+		json: unknown,
+	): SearchResponse | null {
+		const response = json as
+			| (QueryResponse & Partial<SearchResponse>)
+			| null;
+		if (Array.isArray(response?.query?.search)) {
+			return {
+				search: response.query.search.map((page) =>
+					type === "mediainfo"
+						? { id: `M${page.pageid}`, label: page.title }
+						: // Titles of non-item pages carry their namespace.
+							{ id: page.title.replace(/^\w+:/, "") },
+				),
+				success: 1,
+				"search-continue": response.continue?.sroffset,
+			};
+		}
+		if (type === "mediainfo") return null;
+		return Array.isArray(response?.search)
+			? (response as SearchResponse)
+			: null;
+	}
+
+	static replaceCharacters(
 		str: string,
 		searchString: string,
 		replaceString: string,
@@ -294,28 +1428,101 @@ export class Entity {
 		return result;
 	}
 
-	static buildLink(
+	/**
+	 * Fill in a link template such as `internalLinkPrefix`. The placeholders
+	 * are `${label}`, `${description}`, `${qid}` (e.g. Q42), `${numericId}`
+	 * (or `${id}`, e.g. 42) and `${lang}`. Anything after a `|` is the link's
+	 * display text, e.g. `db/${qid}|${label}`. Characters that are not
+	 * allowed in file names are replaced in the link target, and characters
+	 * that would break the link in the display text.
+	 */
+	static buildLink(template: string, vars: LinkVariables): string {
+		const values: { [name: string]: string } = {
+			label: vars.label ?? "",
+			description: vars.description ?? "",
+			// `${id}` has always been the numeric ID; `${qid}` is the full one.
+			id: vars.id.replace(/^[A-Z]+/, ""),
+			qid: vars.id,
+			numericId: vars.id.replace(/^[A-Z]+/, ""),
+			lang: vars.lang ?? "",
+		};
+		const fill = (text: string, unsafe: string) =>
+			text.replace(/\$\{(\w+)\}/g, (match, name: string) =>
+				name in values
+					? Entity.replaceCharacters(values[name], unsafe, "_")
+					: match,
+			);
+
+		const bar = template.indexOf("|");
+		if (bar < 0) return fill(template, LINK_TARGET_UNSAFE);
+		return `${fill(template.substring(0, bar), LINK_TARGET_UNSAFE)}|${fill(
+			template.substring(bar + 1),
+			LINK_DISPLAY_UNSAFE,
+		)}`;
+	}
+
+	/** The target of a link, without its display text. */
+	static linkTarget(link: string): string {
+		const bar = link.indexOf("|");
+		return bar < 0 ? link : link.substring(0, bar);
+	}
+
+	/**
+	 * The inverse of buildLink: recover what the placeholders of `template`
+	 * stood for in `link`, or return null if the link does not follow the
+	 * template. Replaced characters cannot be recovered.
+	 */
+	static parseLink(
+		template: string,
 		link: string,
-		label: string | undefined,
-		id: string,
-	): string {
-		label = label ?? "";
-		const sanitisedLabel = Entity.replaceCharacters(
-			label,
-			'*/:#?<>[]"',
-			"_",
-		);
-		return link
-			.replace(/\$\{label\}/g, sanitisedLabel)
-			.replace(/\$\{id\}/g, id);
+	): Partial<LinkVariables> | null {
+		const names: string[] = [];
+		const pattern = template
+			.split(/(\$\{\w+\})/)
+			.map((part) => {
+				const placeholder = part.match(/^\$\{(\w+)\}$/);
+				if (!placeholder) {
+					return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+				}
+				names.push(placeholder[1]);
+				return placeholder[1] === "qid"
+					? "([A-Z]+\\d+)"
+					: placeholder[1] === "numericId" || placeholder[1] === "id"
+						? "(\\d+)"
+						: "(.*?)";
+			})
+			.join("");
+		const match = link.match(new RegExp(`^${pattern}$`));
+		if (!match) return null;
+
+		const vars: Partial<LinkVariables> = {};
+		names.forEach((name, i) => {
+			const value = match[i + 1];
+			if (name === "qid") vars.id = value;
+			else if (name === "numericId" || name === "id") {
+				vars.id = vars.id ?? `Q${value}`;
+			} else if (name === "label") vars.label = vars.label ?? value;
+			else if (name === "description") vars.description = value;
+			else if (name === "lang") vars.lang = value;
+		});
+		return vars;
 	}
 
 	// -------------------------------------------------------------------------
 	// Query builder
 	// -------------------------------------------------------------------------
 
+	/** Whether value descriptions must be queried for the link template. */
+	private static linksUseDescriptions(opts: GetPropertiesOptions): boolean {
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: this is intentional
+		return opts.internalLinkPrefix.includes("${description}");
+	}
+
 	/**
-	 * Build the SPARQL SELECT query for fetching all properties of this entity.
+	 * Build the SPARQL SELECT query for fetching all properties of the given
+	 * entities. The entities are bound through a `VALUES ?item { ... }` block
+	 * and `?item` is selected so that rows can be attributed back to their
+	 * entity.
 	 *
 	 * Two label strategies are supported depending on the target endpoint:
 	 *
@@ -328,31 +1535,42 @@ export class Entity {
 	 * explicit language filters. The primary language is preferred over the
 	 * fallback via filter ordering.
 	 */
-	private buildPropertiesQuery(
+	private static buildPropertiesQuery(
+		ids: string[],
 		opts: GetPropertiesOptions,
 		useRdfsLabel: boolean,
 	): string {
 		const langs = parseLangs(opts.language);
-		const primaryLang = langs[0];
+		// The label service binds ?valueDescription by itself once selected.
+		const withDescriptions = Entity.linksUseDescriptions(opts);
 
 		const rdfsLangs = parseLangsForRdfs(opts.language);
 		const labelFragment = useRdfsLabel
 			? `
 				${preferredRdfsLabel("?property", "?propertyLabel", langs)}
-				${preferredRdfsLabel("?value", "?valueLabel", rdfsLangs)}`
+				${preferredRdfsLabel("?value", "?valueLabel", rdfsLangs)}${
+					withDescriptions
+						? preferredRdfsLabel(
+								"?value",
+								"?valueDescription",
+								rdfsLangs,
+								"schema:description",
+							)
+						: ""
+				}`
 			: `
 				SERVICE wikibase:label {
 					bd:serviceParam wikibase:language "${langs.join(",")}" .
 				}`;
 
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const values = ids.map((id) => `<${source.entityUri}${id}>`).join(" ");
+
 		let query = `
-			SELECT ?propertyLabel ?value ?valueLabel ?valueType ?normalizedValue ?description WHERE {
-				wd:${this.id} ?propUrl ?value .
+			SELECT ?item ?property ?propertyLabel ?value ?valueLabel ${withDescriptions ? "?valueDescription " : ""}?valueType WHERE {
+				VALUES ?item { ${values} }
+				?item ?propUrl ?value .
 				?property wikibase:directClaim ?propUrl .
-				OPTIONAL {
-					wd:${this.id} schema:description ?description .
-					FILTER(LANG(?description) = "${primaryLang}")
-				}
 				BIND(DATATYPE(?value) AS ?valueType) .
 		`;
 
@@ -368,87 +1586,707 @@ export class Entity {
 		return query;
 	}
 
+	/**
+	 * Build the SPARQL SELECT query for fetching full statements, with their
+	 * qualifiers, of the given entities. Each row carries the `?statement` it
+	 * belongs to and at most one qualifier, so a statement with several
+	 * qualifiers spans several rows. Statements are selected according to
+	 * `opts.rankPolicy`. Qualifiers are only queried when
+	 * `opts.qualifierFormat` asks for them, and quantity units (preferring the
+	 * unit symbol, P5061, over its label) only when `opts.unitFormat` does.
+	 * Time precision and calendar model are fetched for statement values and
+	 * qualifiers unless `opts.dateFormat` is `raw`.
+	 *
+	 * Labels are resolved as described for buildPropertiesQuery. With
+	 * `rdfs:label` the qualifier labels are looked up inside the qualifier's
+	 * OPTIONAL block, so that statements without qualifiers do not join
+	 * against every label in the graph.
+	 */
+	private static buildStatementsQuery(
+		ids: string[],
+		opts: GetPropertiesOptions,
+		useRdfsLabel: boolean,
+	): string {
+		const langs = parseLangs(opts.language);
+		const rdfsLangs = parseLangsForRdfs(opts.language);
+		const withDescriptions = Entity.linksUseDescriptions(opts);
+
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const values = ids.map((id) => `<${source.entityUri}${id}>`).join(" ");
+
+		const rankFilter = {
+			preferred: "?statement wikibase:rank wikibase:PreferredRank .",
+			best: "?statement a wikibase:BestRank .",
+			nondeprecated: `?statement wikibase:rank ?rank .
+				FILTER(?rank != wikibase:DeprecatedRank)`,
+			all: "",
+		}[opts.rankPolicy ?? "best"];
+
+		const qualifierLabels = useRdfsLabel
+			? `
+					${preferredRdfsLabel("?qualifier", "?qualifierLabel", langs)}
+					${preferredRdfsLabel("?qualifierValue", "?qualifierValueLabel", rdfsLangs)}`
+			: "";
+		const labelFragment = useRdfsLabel
+			? `
+				${preferredRdfsLabel("?property", "?propertyLabel", langs)}
+				${preferredRdfsLabel("?value", "?valueLabel", rdfsLangs)}${
+					withDescriptions
+						? preferredRdfsLabel(
+								"?value",
+								"?valueDescription",
+								rdfsLangs,
+								"schema:description",
+							)
+						: ""
+				}`
+			: `
+				SERVICE wikibase:label {
+					bd:serviceParam wikibase:language "${langs.join(",")}" .
+				}`;
+
+		let query = `
+			SELECT ?item ?statement ?property ?propertyLabel ?value ?valueLabel ${withDescriptions ? "?valueDescription " : ""}?valueType ?quantityAmount ?unit ?unitLabel ?unitSymbol ?timePrecision ?timeCalendar ?qualifierLabel ?qualifierValue ?qualifierValueLabel ?qualifierValueType ?qualifierTimePrecision ?qualifierTimeCalendar WHERE {
+				VALUES ?item { ${values} }
+				?item ?claim ?statement .
+				?property wikibase:claim ?claim ;
+					wikibase:statementProperty ?statementProp .
+				?statement ?statementProp ?value .
+				${rankFilter}
+				BIND(DATATYPE(?value) AS ?valueType) .
+		`;
+
+		if ((opts.unitFormat ?? "none") !== "none") {
+			// The value node carries the unit; the normalized one holds the
+			// amount and unit converted to SI. Quantities without a known
+			// conversion have no normalized node and keep their own unit.
+			const unitLabels = useRdfsLabel
+				? preferredRdfsLabel("?unit", "?unitLabel", rdfsLangs)
+				: "";
+			const normalized = opts.normalizeUnits
+				? `
+					OPTIONAL {
+						?property wikibase:statementValueNormalized ?normalizedNodeProp .
+						?statement ?normalizedNodeProp ?normalizedNode .
+						?normalizedNode wikibase:quantityAmount ?normalizedAmount ;
+							wikibase:quantityUnit ?normalizedUnit .
+					}`
+				: "";
+			query += `
+				OPTIONAL {
+					?property wikibase:statementValue ?valueNodeProp .
+					?statement ?valueNodeProp ?valueNode .
+					?valueNode wikibase:quantityAmount ?valueAmount ;
+						wikibase:quantityUnit ?valueUnit .${normalized}
+					BIND(COALESCE(${opts.normalizeUnits ? "?normalizedAmount, " : ""}?valueAmount) AS ?quantityAmount)
+					BIND(COALESCE(${opts.normalizeUnits ? "?normalizedUnit, " : ""}?valueUnit) AS ?unit)
+					${preferredRdfsLabel("?unit", "?unitSymbol", rdfsLangs, "wdt:P5061")}${unitLabels}
+				}
+			`;
+		}
+
+		const withTimes = (opts.dateFormat ?? "raw") !== "raw";
+		if (withTimes) {
+			query += `
+				OPTIONAL {
+					?property wikibase:statementValue ?timeNodeProp .
+					?statement ?timeNodeProp ?timeNode .
+					?timeNode wikibase:timePrecision ?timePrecision ;
+						wikibase:timeCalendarModel ?timeCalendar .
+				}
+			`;
+		}
+
+		if ((opts.qualifierFormat ?? "none") !== "none") {
+			const qualifierTimes = withTimes
+				? `
+					OPTIONAL {
+						?qualifier wikibase:qualifierValue ?qualifierNodeProp .
+						?statement ?qualifierNodeProp ?qualifierNode .
+						?qualifierNode wikibase:timeValue ?qualifierValue ;
+							wikibase:timePrecision ?qualifierTimePrecision ;
+							wikibase:timeCalendarModel ?qualifierTimeCalendar .
+					}`
+				: "";
+			query += `
+				OPTIONAL {
+					?statement ?qualifierProp ?qualifierValue .
+					?qualifier wikibase:qualifier ?qualifierProp .
+					BIND(DATATYPE(?qualifierValue) AS ?qualifierValueType) .${qualifierTimes}${qualifierLabels}
+				}
+			`;
+		} else if (opts.ignorePropertiesWithTimeRanges) {
+			query += `
+				MINUS { ?value p:P580 ?startDateStatement. }
+				MINUS { ?value p:P582 ?endDateStatement. }
+				MINUS { ?value p:P585 ?pointInTimeStatement. }
+			`;
+		}
+
+		query += `${labelFragment}\n\t\t}`;
+		return query;
+	}
+
+	// -------------------------------------------------------------------------
+	// Terms
+	// -------------------------------------------------------------------------
+
+	/**
+	 * Fetch the label, description, aliases and sitelinks of an entity from
+	 * the source's action API. Each term is taken from the first configured
+	 * language that has it.
+	 */
+	static async getTerms(
+		id: string,
+		opts: SearchOptions,
+	): Promise<EntityTerms> {
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const languages = opts.language
+			.split(",")
+			.map((l) => l.trim().toLowerCase())
+			.filter(Boolean);
+		if (!languages.includes("en")) languages.push("en");
+
+		const url =
+			`${source.apiUrl}` +
+			`?action=wbgetentities&format=json&ids=${id}` +
+			`&props=labels|descriptions|aliases|sitelinks` +
+			`&languages=${languages.join("|")}`;
+		const entity = await cachedRequest(url, async () => {
+			const json = (await requestJson(url)) as GetEntitiesResponse | null;
+			const entity = json?.entities?.[id];
+			if (!entity || "missing" in entity) {
+				throw new EntityNotFoundError(id);
+			}
+			return entity;
+		});
+
+		const pick = (terms?: { [lang: string]: ApiTerm }): string | null => {
+			for (const lang of languages) {
+				const value = terms?.[lang]?.value;
+				if (value) return value;
+			}
+			return null;
+		};
+		const aliases: ApiTerm[] =
+			languages
+				.map((lang) => entity.aliases?.[lang])
+				.find((list) => Array.isArray(list) && list.length > 0) ?? [];
+
+		const sitelinks: { [site: string]: string } = {};
+		for (const [site, link] of Object.entries(entity.sitelinks ?? {})) {
+			if (typeof link?.title === "string") sitelinks[site] = link.title;
+		}
+
+		return {
+			label: pick(entity.labels),
+			description: pick(entity.descriptions),
+			aliases: aliases
+				.map((alias) => alias.value)
+				.filter((alias): alias is string => Boolean(alias)),
+			sitelinks,
+		};
+	}
+
+	/**
+	 * Fetch the labels, descriptions and aliases of many entities in the
+	 * configured languages from the source's action API. Entities that do
+	 * not exist are left out. With `cache` off the request cache is bypassed.
+	 */
+	static async getTermsMany(
+		ids: string[],
+		opts: SearchOptions,
+		cache = true,
+	): Promise<{ [id: string]: MultilingualTerms }> {
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const languages = opts.language
+			.split(",")
+			.map((l) => l.trim().toLowerCase())
+			.filter(Boolean);
+		const uniqueIds = Array.from(new Set(ids));
+
+		const ret: { [id: string]: MultilingualTerms } = {};
+		for (let i = 0; i < uniqueIds.length; i += TERMS_BATCH_SIZE) {
+			const chunk = uniqueIds.slice(i, i + TERMS_BATCH_SIZE);
+			const url =
+				`${source.apiUrl}` +
+				`?action=wbgetentities&format=json&ids=${chunk.join("|")}` +
+				`&props=labels|descriptions|aliases` +
+				`&languages=${languages.join("|")}`;
+			const fetchEntities = async () =>
+				((await requestJson(url)) as GetEntitiesResponse | null)
+					?.entities ?? {};
+			const entities = cache
+				? await cachedRequest(url, fetchEntities)
+				: await fetchEntities();
+
+			for (const id of chunk) {
+				const entity = entities[id];
+				if (!entity || "missing" in entity) continue;
+
+				const terms: MultilingualTerms = {
+					labels: {},
+					descriptions: {},
+					aliases: {},
+				};
+				for (const lang of languages) {
+					const label = entity.labels?.[lang]?.value;
+					if (label) terms.labels[lang] = label;
+					const description = entity.descriptions?.[lang]?.value;
+					if (description) terms.descriptions[lang] = description;
+					const aliases = (entity.aliases?.[lang] ?? [])
+						.map((alias) => alias.value)
+						.filter((alias): alias is string => Boolean(alias));
+					if (aliases.length > 0) terms.aliases[lang] = aliases;
+				}
+				ret[id] = terms;
+			}
+		}
+		return ret;
+	}
+
+	/**
+	 * Turn an entity's terms into frontmatter properties:
+	 *
+	 * - `description`: the description in the first language that has one
+	 * - `aliases`: the aliases in every configured language, and the labels
+	 *   in all but the first, which is what Obsidian resolves links by
+	 * - `label_de`, `description_de`, ...: the label and description in each
+	 *   configured language after the first
+	 *
+	 * The `mul` language only contributes labels and aliases.
+	 */
+	static termProperties(
+		terms: MultilingualTerms,
+		language: string,
+	): Properties {
+		const languages = language
+			.split(",")
+			.map((l) => l.trim().toLowerCase())
+			.filter(Boolean);
+		const [primary, ...others] = languages.filter((l) => l !== "mul");
+		const properties: Properties = {};
+
+		const label = terms.labels[primary] ?? terms.labels.mul;
+		const description = languages
+			.map((lang) => terms.descriptions[lang])
+			.find(Boolean);
+		if (description) properties.description = [description];
+
+		const aliases = new Set<string>();
+		for (const lang of languages) {
+			for (const alias of terms.aliases[lang] ?? []) aliases.add(alias);
+			const otherLabel = terms.labels[lang];
+			if (lang !== primary && otherLabel) aliases.add(otherLabel);
+		}
+		if (label) aliases.delete(label);
+		if (aliases.size > 0) properties.aliases = Array.from(aliases);
+
+		for (const lang of others) {
+			if (terms.labels[lang]) {
+				properties[`label_${lang}`] = [terms.labels[lang]];
+			}
+			if (terms.descriptions[lang]) {
+				properties[`description_${lang}`] = [terms.descriptions[lang]];
+			}
+		}
+		return properties;
+	}
+
 	// -------------------------------------------------------------------------
 	// Binding parser
 	// -------------------------------------------------------------------------
 
+	/** The property ID (e.g. P569) of a result row, if it has one. */
+	private static propertyId(
+		r: SparqlBinding,
+		opts: GetPropertiesOptions,
+	): string | null {
+		return r.property?.value
+			? parseEntityId(r.property.value, opts.source ?? WIKIDATA_SOURCE)
+			: null;
+	}
+
+	/**
+	 * The key of a companion property holding `suffix` for each value of
+	 * `key`, such as its unit, joined the way property keys are.
+	 */
+	private static companionKey(
+		key: string,
+		suffix: string,
+		opts: GetPropertiesOptions,
+	): string {
+		return opts.spaceReplacement
+			? `${key}${opts.spaceReplacement}${suffix}`
+			: `${key} ${suffix}`;
+	}
+
+	/**
+	 * The property key among `keys` that `key` is a companion of, such as
+	 * `spouse` for `spouse (start time)` or `height unit`, or null if it
+	 * isn't one. The longest matching key wins.
+	 */
+	static companionParent(
+		key: string,
+		keys: string[],
+		opts: Pick<GetPropertiesOptions, "spaceReplacement">,
+	): string | null {
+		const parents = keys
+			.filter((parent) => parent !== key && key.startsWith(parent))
+			.sort((a, b) => b.length - a.length);
+		const separator = opts.spaceReplacement;
+		const isCompanion = (rest: string) =>
+			separator
+				? rest.length > separator.length && rest.startsWith(separator)
+				: rest === " unit" || /^ \(.+\)$/.test(rest);
+		return (
+			parents.find((parent) =>
+				isCompanion(key.substring(parent.length)),
+			) ?? null
+		);
+	}
+
+	/**
+	 * Whether `key` is one of the term keys made by `termProperties`.
+	 */
+	static isTermKey(key: string): boolean {
+		return (
+			key === "description" ||
+			key === "aliases" ||
+			/^(label|description)_[a-z][a-z0-9-]*$/.test(key)
+		);
+	}
+
+	/**
+	 * Work out the frontmatter key for a result row, or return null if the
+	 * row is excluded by the category, Wikipedia page or ID filters.
+	 *
+	 * Properties in `opts.propertyMappings` get their mapped key as is, and
+	 * are imported even if they are IDs.
+	 */
+	private static propertyKey(
+		r: SparqlBinding,
+		opts: GetPropertiesOptions,
+	): string | null {
+		const propertyId = Entity.propertyId(r, opts);
+		const mapped = propertyId ? opts.propertyMappings?.[propertyId] : null;
+
+		let key = mapped || r.propertyLabel?.value;
+		if (!key) return null;
+
+		const valueLabel: string | null = r.valueLabel?.value ?? null;
+
+		if (opts.ignoreCategories && valueLabel?.startsWith("Category:")) {
+			return null;
+		}
+
+		if (opts.ignoreWikipediaPages && valueLabel?.startsWith("Wikipedia:")) {
+			return null;
+		}
+
+		if (mapped) return key;
+
+		if (opts.ignoreIDs && key.match(/\bID\b/)) {
+			return null;
+		}
+
+		if (opts.spaceReplacement) {
+			key = key.replace(/[^\d\p{L}]+/gu, opts.spaceReplacement);
+		}
+
+		return key;
+	}
+
+	/**
+	 * Convert a single bound value to its frontmatter representation: numbers
+	 * for numeric literals, strings for dates and strings, and internal links
+	 * for entities. Returns null for values that cannot be represented.
+	 *
+	 * Dates are formatted according to `opts.dateFormat`, using the precision
+	 * and calendar model bindings where the query provides them. The value's
+	 * description is only needed for link templates that use it.
+	 */
+	private static convertValue(
+		value: string,
+		type: string | null,
+		valueLabel: string | null,
+		opts: GetPropertiesOptions,
+		timePrecision?: { value: string },
+		timeCalendar?: { value: string },
+		valueDescription?: { value: string },
+	): Scalar | null {
+		const source = opts.source ?? WIKIDATA_SOURCE;
+
+		if (isDate(type)) {
+			return formatTime(
+				value,
+				timePrecision ? Number.parseInt(timePrecision.value) : null,
+				timeCalendar?.value ?? null,
+				opts.dateFormat ?? "raw",
+			);
+		} else if (isDecimal(type)) {
+			return Number.parseFloat(value);
+		} else if (isInteger(type)) {
+			return Number.parseInt(value);
+		} else if (isString(type)) {
+			return value;
+		}
+
+		// Entity-valued property: value is a concept URI of the source
+		const entityId = value.startsWith(source.entityUri)
+			? parseEntityId(value, source)
+			: null;
+		if (entityId && valueLabel) {
+			return `[[${Entity.linkPath(
+				entityId,
+				valueLabel,
+				valueDescription?.value ?? null,
+				opts,
+			)}]]`;
+		}
+		return valueLabel;
+	}
+
+	/**
+	 * The link target for an entity-valued property value: the entity's
+	 * existing note if `opts.resolveLink` knows one, otherwise a path built
+	 * from `opts.internalLinkPrefix`.
+	 */
+	private static linkPath(
+		entityId: string,
+		valueLabel: string,
+		valueDescription: string | null,
+		opts: GetPropertiesOptions,
+	): string {
+		const link = Entity.buildLink(opts.internalLinkPrefix, {
+			id: entityId,
+			label: valueLabel,
+			description: valueDescription ?? undefined,
+			lang: parseLangs(opts.language)[0],
+		});
+		const existing = opts.resolveLink?.(entityId);
+		if (!existing) return link;
+		// Keep the display text of the template for existing notes.
+		return existing + link.substring(Entity.linkTarget(link).length);
+	}
+
+	/**
+	 * The unit of a quantity row, preferring its symbol over its label. Returns
+	 * null for non-quantities and for dimensionless quantities, whose unit is
+	 * the item "1" (Q199).
+	 */
+	private static unitText(r: SparqlBinding): string | null {
+		const unit: string | undefined = r.unit?.value;
+		if (!unit || unit.endsWith("/Q199")) return null;
+		return r.unitSymbol?.value ?? r.unitLabel?.value ?? null;
+	}
+
+	/** Append `value` to `ret[key]` unless an equal value is already there. */
+	private static addValue(ret: Properties, key: string, value: Value) {
+		const serialise = (v: Value) =>
+			typeof v === "object" ? JSON.stringify(v) : String(v);
+		if (ret[key]) {
+			const strVal = serialise(value);
+			if (!ret[key].some((v) => serialise(v) === strVal)) {
+				ret[key].push(value);
+			}
+		} else {
+			ret[key] = [value];
+		}
+	}
+
 	/**
 	 * Translate raw SPARQL result bindings into the Properties map, merging into
 	 * `ret`. Values already present from a prior endpoint are deduplicated by
 	 * string representation, so querying both Blazegraph and QLever never
 	 * produces duplicate frontmatter entries.
 	 */
-	private parseBindings(
-		results: any[],
+	private static parseBindings(
+		results: SparqlBinding[],
 		opts: GetPropertiesOptions,
 		ret: Properties,
 	): void {
 		for (const r of results) {
-			let key: string = r.propertyLabel?.value;
+			const key = Entity.propertyKey(r, opts);
 			if (!key) continue;
 
-			const value: string = r.value?.value;
+			const value = r.value?.value;
 			if (!value) continue;
 
-			const normalizedValue: string | null =
-				r.normalizedValue?.value ?? null;
-			const type: string | null = r.valueType?.value ?? null;
-			const valueLabel: string | null = r.valueLabel?.value ?? null;
+			const toAdd = Entity.convertValue(
+				value,
+				r.valueType?.value ?? null,
+				r.valueLabel?.value ?? null,
+				opts,
+				undefined,
+				undefined,
+				r.valueDescription,
+			);
+			if (toAdd === null) continue;
 
-			if (opts.ignoreCategories && valueLabel?.startsWith("Category:")) {
-				continue;
-			}
+			Entity.addValue(ret, key, toAdd);
+		}
+	}
 
-			if (
-				opts.ignoreWikipediaPages &&
-				valueLabel?.startsWith("Wikipedia:")
-			) {
-				continue;
+	/**
+	 * Translate statement bindings from buildStatementsQuery into the
+	 * Properties map, attaching qualifiers according to `opts.qualifierFormat`.
+	 * Rows are grouped by statement, which also merges the rows both endpoints
+	 * return for the same statement.
+	 */
+	private static parseStatementBindings(
+		results: SparqlBinding[],
+		opts: GetPropertiesOptions,
+		ret: Properties,
+	): void {
+		const statements = new Map<
+			string,
+			{
+				key: string;
+				propertyId: string | null;
+				value: Scalar;
+				unit: string | null;
+				qualifiers: QualifiedValue;
 			}
+		>();
+
+		for (const r of results) {
+			const statementId = r.statement?.value;
+			if (!statementId) continue;
+
+			let statement = statements.get(statementId);
+			if (!statement) {
+				const key = Entity.propertyKey(r, opts);
+				const value = r.value?.value;
+				if (!key || !value) continue;
 
-			if (opts.ignoreIDs && key.match(/\bID\b/)) {
-				continue;
+				// The quantity amount differs from the value when it has been
+				// normalized to SI units.
+				const quantityAmount: string | undefined =
+					r.quantityAmount?.value;
+				const converted = quantityAmount
+					? Number.parseFloat(quantityAmount)
+					: Entity.convertValue(
+							value,
+							r.valueType?.value ?? null,
+							r.valueLabel?.value ?? null,
+							opts,
+							r.timePrecision,
+							r.timeCalendar,
+							r.valueDescription,
+						);
+				if (converted === null) continue;
+
+				statement = {
+					key,
+					propertyId: Entity.propertyId(r, opts),
+					value: converted,
+					unit: Entity.unitText(r),
+					qualifiers: {},
+				};
+				statements.set(statementId, statement);
 			}
 
+			let qualifierKey = r.qualifierLabel?.value;
+			const qualifierValue = r.qualifierValue?.value;
+			if (!qualifierKey || !qualifierValue) continue;
 			if (opts.spaceReplacement) {
-				key = key.replace(/[^\d\p{L}]+/gu, opts.spaceReplacement);
+				qualifierKey = qualifierKey.replace(
+					/[^\d\p{L}]+/gu,
+					opts.spaceReplacement,
+				);
 			}
 
-			let toAdd: Value | null = valueLabel;
-
-			if (normalizedValue) {
-				toAdd = normalizedValue;
-			} else if (isDate(type)) {
-				toAdd = value;
-			} else if (isDecimal(type)) {
-				toAdd = Number.parseFloat(value);
-			} else if (isInteger(type)) {
-				toAdd = Number.parseInt(value);
-			} else if (isString(type)) {
-				toAdd = value;
-			} else {
-				// Entity-valued property: value URL ends in /Q<digits>
-				const entityMatch = value.match(/\/(Q(\d+))$/);
-				if (entityMatch && valueLabel) {
-					const label = Entity.buildLink(
-						opts.internalLinkPrefix,
-						valueLabel,
-						entityMatch[2], // numeric part only, matching original behaviour
-					);
-					toAdd = `[[${label}]]`;
-				}
+			const converted = Entity.convertValue(
+				qualifierValue,
+				r.qualifierValueType?.value ?? null,
+				r.qualifierValueLabel?.value ?? null,
+				opts,
+				r.qualifierTimePrecision,
+				r.qualifierTimeCalendar,
+			);
+			if (converted === null) continue;
+
+			const existing = statement.qualifiers[qualifierKey];
+			if (existing === undefined) {
+				statement.qualifiers[qualifierKey] = converted;
+			} else if (Array.isArray(existing)) {
+				if (!existing.includes(converted)) existing.push(converted);
+			} else if (existing !== converted) {
+				statement.qualifiers[qualifierKey] = [existing, converted];
 			}
+		}
 
-			if (toAdd === null) continue;
+		const format = opts.qualifierFormat ?? "none";
+		const unitFormat = opts.unitFormat ?? "none";
+		const wanted = opts.qualifierProperties ?? [];
+		const companions: { [key: string]: QualifiedValue[] } = {};
+		const units: { [key: string]: string[] } = {};
+
+		statements.forEach(({ key, propertyId, value, unit, qualifiers }) => {
+			const hasQualifiers =
+				Object.keys(qualifiers).length > 0 &&
+				(wanted.length === 0 ||
+					(propertyId !== null && wanted.includes(propertyId)) ||
+					wanted.includes(key));
+
+			let entry: Value = value;
+			if (unit && unitFormat === "suffix") {
+				entry = `${value} ${unit}`;
+			} else if (unit && unitFormat === "object") {
+				entry = { amount: value, unit };
+			}
+
+			if (format === "nested" && hasQualifiers) {
+				entry =
+					typeof entry === "object"
+						? { ...entry, ...qualifiers }
+						: { value: entry, ...qualifiers };
+			}
+
+			const count = ret[key]?.length ?? 0;
+			Entity.addValue(ret, key, entry);
+			if (ret[key].length === count) return;
+
+			const index = count;
+			if (format === "keys") {
+				companions[key] = companions[key] ?? [];
+				companions[key][index] = hasQualifiers ? qualifiers : {};
+			}
+			if (unitFormat === "key" && unit) {
+				units[key] = units[key] ?? [];
+				units[key][index] = unit;
+			}
+		});
+
+		for (const [key, perValue] of Object.entries(units)) {
+			ret[Entity.companionKey(key, "unit", opts)] = ret[key].map(
+				(_, i) => perValue[i] ?? "",
+			);
+		}
 
-			if (ret[key]) {
-				const strVal = String(toAdd);
-				if (!ret[key].some((v) => String(v) === strVal)) {
-					ret[key].push(toAdd);
+		// Companion keys hold one entry per value of the property, so that the
+		// n-th entry always belongs to the n-th value. Values without the
+		// qualifier get an empty string.
+		for (const [key, perValue] of Object.entries(companions)) {
+			const qualifierKeys = new Set<string>();
+			for (const qualifiers of perValue) {
+				for (const q of Object.keys(qualifiers ?? {})) {
+					qualifierKeys.add(q);
 				}
-			} else {
-				ret[key] = [toAdd];
 			}
+			qualifierKeys.forEach((q) => {
+				const companionKey = opts.spaceReplacement
+					? Entity.companionKey(key, q, opts)
+					: `${key} (${q})`;
+				ret[companionKey] = ret[key].map((_, i) => {
+					const qualifier = perValue[i]?.[q];
+					if (qualifier === undefined) return "";
+					return Array.isArray(qualifier)
+						? qualifier.join(", ")
+						: qualifier;
+				});
+			});
 		}
 	}
 
@@ -459,7 +2297,26 @@ export class Entity {
 	/**
 	 * Fetch all properties for this entity and return them as a key->values map.
 	 *
-	 * Both SPARQL endpoints are queried in parallel and their results merged:
+	 * This is a batch of one; see getPropertiesMany for how the endpoints are
+	 * queried and merged.
+	 */
+	async getProperties(opts: GetPropertiesOptions): Promise<Properties> {
+		const { properties, notFound } = await Entity.getPropertiesMany(
+			[this.id],
+			opts,
+		);
+		if (notFound.includes(this.id)) {
+			throw new EntityNotFoundError(this.id);
+		}
+		return properties[this.id];
+	}
+
+	/**
+	 * Fetch all properties for many entities at once, issuing one query per
+	 * chunk of `opts.chunkSize` IDs to each endpoint rather than one per entity.
+	 *
+	 * All enabled endpoints in `opts.endpoints` are queried in parallel and
+	 * their results merged. By default these are:
 	 *
 	 * - **Blazegraph** (`query.wikidata.org`) — authoritative for the majority
 	 *   of Wikidata entities.
@@ -467,28 +2324,324 @@ export class Entity {
 	 *   used for scholarly articles which were moved out of the main graph.
 	 *   @see https://www.wikidata.org/wiki/Wikidata:SPARQL_query_service/WDQS_graph_split
 	 *
-	 * Duplicate property values across both responses are deduplicated before
-	 * the result is returned.
+	 * When `opts.qualifierFormat` asks for qualifiers, `opts.unitFormat` for
+	 * units, `opts.dateFormat` for date precision, or `opts.rankPolicy` is
+	 * anything but `best`, full statements are queried instead of truthy
+	 * claims.
+	 *
+	 * Duplicate property values across the responses are deduplicated before
+	 * the result is returned. Entities for which no endpoint returned any rows
+	 * are listed in `notFound` rather than failing the whole batch.
+	 *
+	 * An endpoint that fails is skipped and recorded in `diagnostics`, so that
+	 * one endpoint being down does not fail the import. Only if every endpoint
+	 * fails is the error thrown.
 	 */
-	async getProperties(opts: GetPropertiesOptions): Promise<Properties> {
-		const ret: Properties = {};
-
-		const [wdResults, qlResults] = await Promise.all([
-			runSparql(WIKIDATA_SPARQL, this.buildPropertiesQuery(opts, false)),
-			runSparql(
-				QLEVER_SPARQL,
-				WIKIDATA_PREFIXES + this.buildPropertiesQuery(opts, true),
-				true,
-			),
-		]);
+	static async getPropertiesMany(
+		ids: string[],
+		opts: GetPropertiesManyOptions,
+	): Promise<BatchProperties> {
+		const uniqueIds = Array.from(new Set(ids));
+		const chunkSize = Math.max(1, opts.chunkSize ?? BATCH_SIZE);
+		const ret: BatchProperties = {
+			properties: {},
+			propertyIds: {},
+			links: {},
+			notFound: [],
+			diagnostics: [],
+		};
 
-		if (wdResults.length === 0 && qlResults.length === 0) {
-			throw new EntityNotFoundError(this.id);
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const endpoints = (opts.endpoints ?? DEFAULT_SPARQL_ENDPOINTS).filter(
+			(endpoint) => endpoint.enabled,
+		);
+		if (endpoints.length === 0) {
+			throw new Error("No SPARQL endpoints are enabled");
+		}
+		const withStatements =
+			(opts.qualifierFormat ?? "none") !== "none" ||
+			(opts.rankPolicy ?? "best") !== "best" ||
+			(opts.unitFormat ?? "none") !== "none" ||
+			(opts.dateFormat ?? "raw") !== "raw";
+
+		for (let i = 0; i < uniqueIds.length; i += chunkSize) {
+			const chunk = uniqueIds.slice(i, i + chunkSize);
+
+			const { bindings, diagnostics } = await runSparqlSettled(
+				endpoints,
+				(endpoint) => {
+					const useRdfsLabel =
+						!SPARQL_DIALECTS[endpoint.dialect].labelService;
+					return withStatements
+						? Entity.buildStatementsQuery(chunk, opts, useRdfsLabel)
+						: Entity.buildPropertiesQuery(
+								chunk,
+								opts,
+								useRdfsLabel,
+							);
+				},
+				source,
+				opts.cache ?? true,
+			);
+			ret.diagnostics = mergeDiagnostics(ret.diagnostics, diagnostics);
+
+			const byItem = new Map<string, SparqlBinding[]>();
+			for (const r of bindings) {
+				const itemId = r.item?.value
+					? parseEntityId(r.item.value, source)
+					: null;
+				if (!itemId) continue;
+				const rows = byItem.get(itemId) ?? [];
+				rows.push(r);
+				byItem.set(itemId, rows);
+			}
+
+			for (const id of chunk) {
+				const rows = byItem.get(id);
+				if (!rows) {
+					ret.notFound.push(id);
+					continue;
+				}
+				const properties: Properties = {};
+				if (withStatements) {
+					Entity.parseStatementBindings(rows, opts, properties);
+				} else {
+					Entity.parseBindings(rows, opts, properties);
+				}
+				ret.properties[id] = properties;
+
+				const propertyIds: { [key: string]: string } = {};
+				const links: { [key: string]: EntityLink[] } = {};
+				const merged = new Set<string>();
+				for (const r of rows) {
+					const key = Entity.propertyKey(r, opts);
+					const propertyId = Entity.propertyId(r, opts);
+					if (!key || !propertyId || !properties[key]) continue;
+					if (propertyIds[key] && propertyIds[key] !== propertyId) {
+						merged.add(key);
+					}
+					propertyIds[key] = propertyId;
+
+					const value: string | undefined = r.value?.value;
+					const valueLabel: string | undefined = r.valueLabel?.value;
+					const linkedId =
+						value?.startsWith(source.entityUri) && valueLabel
+							? parseEntityId(value, source)
+							: null;
+					if (
+						linkedId &&
+						valueLabel &&
+						!links[key]?.some((link) => link.id === linkedId)
+					) {
+						links[key] = links[key] ?? [];
+						links[key].push({
+							id: linkedId,
+							label: valueLabel,
+							path: Entity.linkTarget(
+								Entity.linkPath(
+									linkedId,
+									valueLabel,
+									r.valueDescription?.value ?? null,
+									opts,
+								),
+							),
+						});
+					}
+				}
+				merged.forEach((key) => {
+					delete propertyIds[key];
+				});
+				ret.propertyIds[id] = propertyIds;
+				ret.links[id] = links;
+			}
+		}
+
+		if (opts.importTerms) {
+			const found = Object.keys(ret.properties);
+			const terms = await Entity.getTermsMany(
+				found,
+				opts,
+				opts.cache ?? true,
+			);
+			for (const id of found) {
+				if (!terms[id]) continue;
+				Object.assign(
+					ret.properties[id],
+					Entity.termProperties(terms[id], opts.language),
+				);
+			}
+		}
+
+		return ret;
+	}
+
+	/**
+	 * Find which of `classIds` each entity is an instance of, directly or as
+	 * an instance of a subclass (`P31/P279*`). Results of all enabled
+	 * endpoints are merged. Entities matching none of the classes map to an
+	 * empty list.
+	 */
+	static async getInstanceOfMany(
+		ids: string[],
+		classIds: string[],
+		opts: Pick<GetPropertiesOptions, "endpoints" | "source">,
+	): Promise<{ [id: string]: string[] }> {
+		const ret: { [id: string]: string[] } = {};
+		for (const id of ids) ret[id] = [];
+		if (ids.length === 0 || classIds.length === 0) return ret;
+
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const endpoints = (opts.endpoints ?? DEFAULT_SPARQL_ENDPOINTS).filter(
+			(endpoint) => endpoint.enabled,
+		);
+		if (endpoints.length === 0) {
+			throw new Error("No SPARQL endpoints are enabled");
+		}
+
+		const uris = (values: string[]) =>
+			values.map((id) => `<${source.entityUri}${id}>`).join(" ");
+		const query = `
+			SELECT DISTINCT ?item ?class WHERE {
+				VALUES ?item { ${uris(Array.from(new Set(ids)))} }
+				VALUES ?class { ${uris(Array.from(new Set(classIds)))} }
+				?item wdt:P31/wdt:P279* ?class .
+			}`;
+
+		const { bindings } = await runSparqlSettled(
+			endpoints,
+			() => query,
+			source,
+		);
+		for (const r of bindings) {
+			const itemId = r.item?.value
+				? parseEntityId(r.item.value, source)
+				: null;
+			const classId = r.class?.value
+				? parseEntityId(r.class.value, source)
+				: null;
+			if (
+				itemId &&
+				classId &&
+				ret[itemId] &&
+				!ret[itemId].includes(classId)
+			) {
+				ret[itemId].push(classId);
+			}
+		}
+		return ret;
+	}
+
+	/**
+	 * What each entity is an instance of (P31), labelled in the configured
+	 * languages, and its image (P18), for showing next to search results.
+	 * Entities no endpoint knows are left out.
+	 */
+	static async getSearchDetails(
+		ids: string[],
+		opts: Pick<GetPropertiesOptions, "endpoints" | "source" | "language">,
+	): Promise<{ [id: string]: SearchDetails }> {
+		const ret: { [id: string]: SearchDetails } = {};
+		if (ids.length === 0) return ret;
+
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const endpoints = (opts.endpoints ?? DEFAULT_SPARQL_ENDPOINTS).filter(
+			(endpoint) => endpoint.enabled,
+		);
+		if (endpoints.length === 0) {
+			throw new Error("No SPARQL endpoints are enabled");
+		}
+
+		const langs = parseLangs(opts.language);
+		const values = Array.from(new Set(ids))
+			.map((id) => `<${source.entityUri}${id}>`)
+			.join(" ");
+		const query = (endpoint: SparqlEndpoint) => `
+			SELECT ?item ?typeLabel ?image WHERE {
+				VALUES ?item { ${values} }
+				OPTIONAL {
+					?item wdt:P31 ?type .${
+						SPARQL_DIALECTS[endpoint.dialect].labelService
+							? ""
+							: preferredRdfsLabel(
+									"?type",
+									"?typeLabel",
+									parseLangsForRdfs(opts.language),
+								)
+					}
+				}
+				OPTIONAL { ?item wdt:P18 ?image . }${
+					SPARQL_DIALECTS[endpoint.dialect].labelService
+						? `
+				SERVICE wikibase:label {
+					bd:serviceParam wikibase:language "${langs.join(",")}" .
+				}`
+						: ""
+				}
+			}`;
+
+		const { bindings } = await runSparqlSettled(endpoints, query, source);
+		for (const r of bindings) {
+			const itemId = r.item?.value
+				? parseEntityId(r.item.value, source)
+				: null;
+			if (!itemId) continue;
+			ret[itemId] = ret[itemId] ?? { types: [], image: null };
+			const type = r.typeLabel?.value;
+			if (type && !ret[itemId].types.includes(type)) {
+				ret[itemId].types.push(type);
+			}
+			ret[itemId].image = ret[itemId].image ?? r.image?.value ?? null;
+		}
+		return ret;
+	}
+
+	/**
+	 * When each entity was last modified (`schema:dateModified`), as an ISO
+	 * timestamp. Entities no endpoint knows are left out. The response cache
+	 * is bypassed, since the point is to notice recent edits.
+	 */
+	static async getModifiedMany(
+		ids: string[],
+		opts: Pick<GetPropertiesOptions, "endpoints" | "source">,
+	): Promise<{ [id: string]: string }> {
+		const ret: { [id: string]: string } = {};
+		if (ids.length === 0) return ret;
+
+		const source = opts.source ?? WIKIDATA_SOURCE;
+		const endpoints = (opts.endpoints ?? DEFAULT_SPARQL_ENDPOINTS).filter(
+			(endpoint) => endpoint.enabled,
+		);
+		if (endpoints.length === 0) {
+			throw new Error("No SPARQL endpoints are enabled");
 		}
 
-		this.parseBindings(wdResults, opts, ret);
-		this.parseBindings(qlResults, opts, ret);
+		const query = `
+			SELECT ?item ?modified WHERE {
+				VALUES ?item { ${Array.from(new Set(ids))
+					.map((id) => `<${source.entityUri}${id}>`)
+					.join(" ")} }
+				?item schema:dateModified ?modified .
+			}`;
 
+		const { bindings } = await runSparqlSettled(
+			endpoints,
+			() => query,
+			source,
+			false,
+		);
+		for (const r of bindings) {
+			const itemId = r.item?.value
+				? parseEntityId(r.item.value, source)
+				: null;
+			const modified = r.modified?.value;
+			if (
+				itemId &&
+				typeof modified === "string" &&
+				(!ret[itemId] || Date.parse(modified) > Date.parse(ret[itemId]))
+			) {
+				ret[itemId] = modified;
+			}
+		}
 		return ret;
 	}
 }